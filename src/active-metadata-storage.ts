@@ -0,0 +1,26 @@
+import { MetadataStorage } from './metadata-storage.class';
+import { defaultMetadataStorage } from './default-storage.const';
+
+let activeMetadataStorage: MetadataStorage = defaultMetadataStorage;
+
+/**
+ * Returns the storage the decorators register their metadata into. It is the default metadata storage unless
+ * the decorators are applied via `runWithMetadataStorage`.
+ */
+export function getMetadataStorage(): MetadataStorage {
+  return activeMetadataStorage;
+}
+
+/**
+ * Runs the callback with the given storage set as the storage the decorators register their metadata into.
+ */
+export function runWithMetadataStorage<T>(metadataStorage: MetadataStorage, callback: () => T): T {
+  const previousMetadataStorage = activeMetadataStorage;
+  activeMetadataStorage = metadataStorage;
+
+  try {
+    return callback();
+  } finally {
+    activeMetadataStorage = previousMetadataStorage;
+  }
+}
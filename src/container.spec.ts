@@ -0,0 +1,98 @@
+import { defaultMetadataStorage } from './default-storage.const';
+import { Sanitize, SanitizerConstraint } from './decorators';
+import { Container, CustomSanitizer } from './interfaces';
+import { getFromContainer, useContainer } from './container';
+import { sanitize } from '.';
+
+describe('Container', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+  afterEach(() => useContainer(undefined));
+
+  class Dependency {
+    constructor(public suffix: string) {}
+  }
+
+  function defineSanitizer() {
+    @SanitizerConstraint()
+    class SuffixSanitizer implements CustomSanitizer {
+      constructor(private dependency: Dependency) {}
+
+      sanitize(value: string): string {
+        return value + this.dependency.suffix;
+      }
+    }
+
+    class TestClass {
+      @Sanitize(SuffixSanitizer)
+      text: string;
+    }
+
+    return { SuffixSanitizer, TestClass };
+  }
+
+  function createContainer(suffix: string): Container {
+    return {
+      get: (someClass: any) => new someClass(new Dependency(suffix)),
+    };
+  }
+
+  it('should create custom sanitizers lazily with the default container', () => {
+    const construct = jest.fn();
+
+    @SanitizerConstraint()
+    class LazySanitizer implements CustomSanitizer {
+      constructor() {
+        construct();
+      }
+
+      sanitize(value: string): string {
+        return value;
+      }
+    }
+
+    expect(construct).not.toHaveBeenCalled();
+    expect(getFromContainer(LazySanitizer)).toBe(getFromContainer(LazySanitizer));
+    expect(construct).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve custom sanitizers from the container set with useContainer', () => {
+    const { TestClass } = defineSanitizer();
+    useContainer(createContainer('!'));
+
+    const instance = Object.assign(new TestClass(), { text: 'text' });
+    sanitize(instance);
+
+    expect(instance.text).toBe('text!');
+  });
+
+  it('should resolve custom sanitizers from the container given to the sanitizer', () => {
+    const { TestClass } = defineSanitizer();
+    useContainer(createContainer('!'));
+
+    const instance = Object.assign(new TestClass(), { text: 'text' });
+    sanitize(instance, { container: createContainer('?') });
+
+    expect(instance.text).toBe('text?');
+  });
+
+  it('should fall back to the default container when requested', () => {
+    class Fallback {}
+    const failingContainer: Container = {
+      get: () => {
+        throw new Error('not registered');
+      },
+    };
+
+    useContainer({ get: () => undefined });
+    expect(() => getFromContainer(Fallback)).toThrow('The container did not return an instance of Fallback.');
+
+    useContainer({ get: () => undefined }, { fallback: true });
+    expect(getFromContainer(Fallback)).toBeInstanceOf(Fallback);
+
+    useContainer(failingContainer);
+    expect(() => getFromContainer(Fallback)).toThrow('not registered');
+
+    useContainer(failingContainer, { fallbackOnErrors: true });
+    expect(getFromContainer(Fallback)).toBeInstanceOf(Fallback);
+  });
+});
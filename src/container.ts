@@ -0,0 +1,62 @@
+import { Container, UseContainerOptions } from './interfaces';
+
+/**
+ * Container used when no user container is set. Creates a single instance of every class on first use.
+ */
+const defaultContainer: Container = new (class implements Container {
+  private instances: Map<Function, any> = new Map();
+
+  get<T>(someClass: new (...args: any[]) => T): T {
+    if (!this.instances.has(someClass)) {
+      this.instances.set(someClass, new someClass());
+    }
+
+    return this.instances.get(someClass);
+  }
+})();
+
+let userContainer: Container | undefined;
+let userContainerOptions: UseContainerOptions = {};
+
+/**
+ * Sets the container used to resolve the instances of custom sanitizers. Passing undefined restores the default
+ * container.
+ */
+export function useContainer(iocContainer: Container | undefined, options: UseContainerOptions = {}): void {
+  userContainer = iocContainer;
+  userContainerOptions = options;
+}
+
+/**
+ * Gets the instance of the given class from the given container, or from the container set with `useContainer`.
+ * Falls back to the default container based on the options given to `useContainer`, throws an error when the
+ * container doesn't return an instance and no fallback is allowed.
+ */
+export function getFromContainer<T>(
+  someClass: new (...args: any[]) => T,
+  iocContainer: Container | undefined = userContainer
+): T {
+  if (iocContainer) {
+    let instance: T | undefined;
+
+    try {
+      instance = iocContainer.get(someClass);
+    } catch (error) {
+      if (!userContainerOptions.fallbackOnErrors) {
+        throw error;
+      }
+
+      return defaultContainer.get(someClass);
+    }
+
+    if (instance) {
+      return instance;
+    }
+
+    if (!userContainerOptions.fallback) {
+      throw new Error(`The container did not return an instance of ${someClass.name}.`);
+    }
+  }
+
+  return defaultContainer.get(someClass);
+}
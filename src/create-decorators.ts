@@ -0,0 +1,25 @@
+import * as decorators from './decorators';
+import { MetadataStorage } from './metadata-storage.class';
+import { runWithMetadataStorage } from './active-metadata-storage';
+
+/**
+ * Creates every decorator of the library bound to the given storage. The created decorators register their
+ * metadata into the given storage instead of the default one.
+ *
+ * @param metadataStorage the storage the created decorators register their metadata into
+ */
+export function createDecorators(metadataStorage: MetadataStorage): typeof decorators {
+  const boundDecorators: Record<string, Function> = {};
+
+  Object.keys(decorators).forEach(name => {
+    const decoratorFactory = (decorators as Record<string, Function>)[name];
+
+    boundDecorators[name] = (...args: any[]) => {
+      const decorator = decoratorFactory(...args);
+
+      return (...decoratorArgs: any[]) => runWithMetadataStorage(metadataStorage, () => decorator(...decoratorArgs));
+    };
+  });
+
+  return boundDecorators as typeof decorators;
+}
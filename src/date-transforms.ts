@@ -0,0 +1,230 @@
+import validator from 'validator';
+import { DateParsingOptions } from './interfaces';
+
+interface DateComponents {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** UTC offset in minutes when it was part of the input. */
+  offset?: number;
+}
+
+/** Patterns of the tokens of date formats and the component they set. */
+const FORMAT_TOKENS: Record<string, [string, keyof DateComponents]> = {
+  YYYY: ['\\d{4}', 'year'],
+  YY: ['\\d{2}', 'year'],
+  MM: ['\\d{2}', 'month'],
+  M: ['\\d{1,2}', 'month'],
+  DD: ['\\d{2}', 'day'],
+  D: ['\\d{1,2}', 'day'],
+  HH: ['\\d{2}', 'hour'],
+  H: ['\\d{1,2}', 'hour'],
+  mm: ['\\d{2}', 'minute'],
+  ss: ['\\d{2}', 'second'],
+  SSS: ['\\d{1,3}', 'millisecond'],
+  Z: ['Z|[+-]\\d{2}:?\\d{2}', 'offset'],
+};
+
+/** ISO 8601 dates and date-times without UTC offset. */
+const NAIVE_ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3})\d*)?)?)?$/;
+
+/**
+ * Converts the input to a date based on the given options. Returns null when the input is not a date.
+ */
+export function parseDate(input: any, options: DateParsingOptions = {}): Date | string | null {
+  const date = toDateInstance(input, options);
+
+  if (!date || Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  const result = options.truncateToDay ? truncateToDay(date, options.timezone || 'UTC') : date;
+
+  return options.output === 'iso' ? result.toISOString() : result;
+}
+
+/**
+ * Creates the date instance from the input without applying the output options.
+ */
+function toDateInstance(input: any, options: DateParsingOptions): Date | null {
+  if (input instanceof Date) {
+    return input;
+  }
+  if (input === null || input === undefined || typeof input.toString !== 'function') {
+    return null;
+  }
+
+  const { formats, unixTimestamp, timezone = 'UTC' } = options;
+  const str = String(input).trim();
+
+  if (unixTimestamp && (typeof input === 'number' || /^-?\d+(\.\d+)?$/.test(str))) {
+    return new Date(Number(str) * (unixTimestamp === 'seconds' ? 1000 : 1));
+  }
+
+  if (formats) {
+    for (const format of formats) {
+      const components = parseFormat(str, format);
+
+      if (components) {
+        return toDateFromComponents(components, timezone);
+      }
+    }
+
+    return null;
+  }
+
+  const naiveMatch = options.timezone ? NAIVE_ISO_PATTERN.exec(str) : null;
+
+  if (naiveMatch) {
+    const [year, month, day, hour, minute, second] = naiveMatch.slice(1, 7).map(part => Number(part || 0));
+    const millisecond = naiveMatch[7] ? Number(naiveMatch[7].padEnd(3, '0')) : 0;
+
+    return toDateFromComponents({ year, month, day, hour, minute, second, millisecond }, timezone);
+  }
+
+  return validator.toDate(str);
+}
+
+/**
+ * Parses the date components from the input based on the format. Returns undefined when the input doesn't match
+ * the format or the components are out of range.
+ */
+function parseFormat(input: string, format: string): DateComponents | undefined {
+  const componentNames: (keyof DateComponents)[] = [];
+  const pattern = format
+    .split(/(YYYY|YY|MM|M|DD|D|HH|H|mm|ss|SSS|Z)/)
+    .map((part, index) => {
+      if (index % 2 === 0) {
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+
+      componentNames.push(FORMAT_TOKENS[part][1]);
+      return `(${FORMAT_TOKENS[part][0]})`;
+    })
+    .join('');
+  const match = new RegExp(`^${pattern}$`).exec(input);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const components: DateComponents = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+
+  componentNames.forEach((name, index) => {
+    const value = match[index + 1];
+
+    if (name === 'offset') {
+      components.offset = parseOffset(value);
+    } else if (name === 'millisecond') {
+      components.millisecond = Number(value.padEnd(3, '0'));
+    } else {
+      components[name] = name === 'year' && value.length === 2 ? 2000 + Number(value) : Number(value);
+    }
+  });
+
+  const { year, month, day, hour, minute, second } = components;
+  const date = new Date(0);
+
+  /** `Date.UTC` maps the years 0-99 to 1900-1999, `setUTCFullYear` doesn't. */
+  date.setUTCFullYear(year, month - 1, day);
+
+  const isValidDay = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+
+  return isValidDay && hour < 24 && minute < 60 && second < 60 ? components : undefined;
+}
+
+/**
+ * Creates the date from the components, using the UTC offset of the timezone when the components have none.
+ */
+function toDateFromComponents(components: DateComponents, timezone: string): Date {
+  const { year, month, day, hour, minute, second, millisecond, offset } = components;
+  const date = new Date(Date.UTC(1970, 0, 1, hour, minute, second, millisecond));
+
+  /** `Date.UTC` maps the years 0-99 to 1900-1999, `setUTCFullYear` doesn't. */
+  date.setUTCFullYear(year, month - 1, day);
+
+  return new Date(date.getTime() - (offset !== undefined ? offset : getOffset(timezone, date.getTime(), true)) * 60000);
+}
+
+/**
+ * Sets the time of the date to midnight in the given timezone.
+ */
+function truncateToDay(date: Date, timezone: string): Date {
+  const local = new Date(date.getTime() + getOffset(timezone, date.getTime(), false) * 60000);
+
+  return toDateFromComponents(
+    {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    },
+    timezone
+  );
+}
+
+/**
+ * Returns the UTC offset of the timezone in minutes. For IANA timezones the offset is calculated for the given
+ * time, so daylight saving time is taken into account.
+ *
+ * @param timezone `UTC`, an offset like `+02:00` or the name of an IANA timezone
+ * @param time the time the offset is calculated for
+ * @param isLocalTime whether the time is the local time in the timezone as if it was in UTC
+ */
+function getOffset(timezone: string, time: number, isLocalTime: boolean): number {
+  if (timezone.toUpperCase() === 'UTC' || timezone === 'Z') {
+    return 0;
+  }
+  if (/^[+-]\d{2}:?\d{2}$/.test(timezone)) {
+    return parseOffset(timezone);
+  }
+
+  if (!isLocalTime) {
+    return getIanaOffset(timezone, time);
+  }
+
+  /** The offset at the local time interpreted as UTC is a good guess, it's corrected when it crosses a transition. */
+  const guess = getIanaOffset(timezone, time);
+
+  return getIanaOffset(timezone, time - guess * 60000);
+}
+
+/**
+ * Returns the UTC offset of the IANA timezone in minutes at the given time.
+ */
+function getIanaOffset(timezone: string, time: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour12: false,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number((parts.find(part => part.type === type) || { value: '0' }).value);
+  const localTime = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+
+  return Math.round((localTime - (time - (((time % 1000) + 1000) % 1000))) / 60000);
+}
+
+/**
+ * Parses an UTC offset like `Z`, `+02:00` or `-0530` to minutes.
+ */
+function parseOffset(offset: string): number {
+  if (offset === 'Z') {
+    return 0;
+  }
+
+  const [, sign, hours, minutes] = /^([+-])(\d{2}):?(\d{2})$/.exec(offset) || [];
+
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+}
@@ -1,16 +1,37 @@
 export * from './sanitizers/blacklist.decorator';
+export * from './sanitizers/capitalize.decorator';
+export * from './sanitizers/clamp.decorator';
+export * from './sanitizers/collapse-whitespace.decorator';
+export * from './sanitizers/default.decorator';
+export * from './sanitizers/empty-to-null.decorator';
 export * from './sanitizers/escape.decorator';
 export * from './sanitizers/left-trim.decorator';
 export * from './sanitizers/normalize-email.decorator';
+export * from './sanitizers/normalize-newlines.decorator';
+export * from './sanitizers/normalize-unicode.decorator';
+export * from './sanitizers/normalize-url.decorator';
+export * from './sanitizers/null-to-undefined.decorator';
 export * from './sanitizers/right-trim.decorator';
+export * from './sanitizers/round.decorator';
+export * from './sanitizers/sanitize-html.decorator';
+export * from './sanitizers/slugify.decorator';
 export * from './sanitizers/strip-low.decorator';
 export * from './sanitizers/to-boolean.decorator';
+export * from './sanitizers/to-camel-case.decorator';
 export * from './sanitizers/to-date.decorator';
 export * from './sanitizers/to-float.decorator';
 export * from './sanitizers/to-int.decorator';
+export * from './sanitizers/to-lower-case.decorator';
+export * from './sanitizers/to-number.decorator';
+export * from './sanitizers/to-snake-case.decorator';
 export * from './sanitizers/to-string.decorator';
+export * from './sanitizers/to-upper-case.decorator';
 export * from './sanitizers/trim.decorator';
+export * from './sanitizers/truncate.decorator';
 export * from './sanitizers/whitelist.decorator';
 export * from './sanitize-nested.decorator';
 export * from './sanitize.decorator';
+export * from './sanitize-if.decorator';
 export * from './sanitizer-constraint.decorator';
+export * from './override-inherited.decorator';
+export * from './inherit-sanitation.decorator';
@@ -0,0 +1,11 @@
+import { getMetadataStorage } from '../active-metadata-storage';
+
+/**
+ * Applies the rules defined on the given classes to the decorated class as if it would inherit from them.
+ * Useful for classes composed from mixins to reuse shared rule sets.
+ */
+export function InheritSanitation(...mixins: Function[]): ClassDecorator {
+  return function (target: Function) {
+    getMetadataStorage().addMetadata({ target, mixins }, 'mixin');
+  };
+}
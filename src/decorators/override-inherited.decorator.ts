@@ -0,0 +1,17 @@
+import { getMetadataStorage } from '../active-metadata-storage';
+
+/**
+ * Drops the rules inherited from parent classes and mixins for the decorated property. Only the rules declared
+ * on the class (if any) are applied, so using it without other decorators disables sanitation of the property.
+ */
+export function OverrideInherited(): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        target: target as Function,
+        propertyName: propertyName,
+      },
+      'override'
+    );
+  };
+}
@@ -0,0 +1,146 @@
+import { defaultMetadataStorage } from '../default-storage.const';
+import { Blacklist, Escape, SanitizeIf, Trim } from '../decorators';
+import { getSanitationPipeline, sanitize } from '..';
+
+describe('SanitizeIf', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should apply the rules of the property only when the condition is met', () => {
+    class TestClass {
+      @SanitizeIf((object: TestClass) => object.format !== 'markdown')
+      @Escape()
+      bio: string;
+
+      format: string;
+    }
+
+    const html = Object.assign(new TestClass(), { format: 'html', bio: '<b>' });
+    const markdown = Object.assign(new TestClass(), { format: 'markdown', bio: '<b>' });
+
+    sanitize(html);
+    sanitize(markdown);
+
+    expect(html.bio).toBe('&lt;b&gt;');
+    expect(markdown.bio).toBe('<b>');
+  });
+
+  it('should pass the value of the property to the condition', () => {
+    class TestClass {
+      @SanitizeIf((object, value) => typeof value === 'string')
+      @Trim()
+      text: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { text: 42 });
+
+    expect(() => sanitize(instance)).not.toThrow();
+    expect(instance.text).toBe(42);
+  });
+
+  it('should evaluate the condition before the first rule of the property', () => {
+    const condition = jest.fn((object, value) => value === ' +1 555 ');
+
+    class TestClass {
+      @Blacklist('^0-9')
+      @Trim()
+      @SanitizeIf(condition)
+      phone: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { phone: ' +1 555 ' });
+
+    sanitize(instance);
+
+    expect(condition).toHaveBeenCalledTimes(1);
+    expect(instance.phone).toBe('1555');
+  });
+
+  it('should see the already sanitized values of other properties', () => {
+    class TestClass {
+      @Trim()
+      country: string;
+
+      @SanitizeIf((object: TestClass) => object.country === 'US')
+      @Blacklist('^0-9')
+      phone: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { country: ' US ', phone: '(555) 123' });
+
+    sanitize(instance);
+
+    expect(instance.phone).toBe('555123');
+  });
+
+  it('should apply the rules only when every condition is met', () => {
+    class TestClass {
+      @SanitizeIf((object: TestClass) => object.enabled)
+      @SanitizeIf((object, value) => value.length > 3)
+      @Trim()
+      text: string;
+
+      enabled: boolean;
+    }
+
+    const short = Object.assign(new TestClass(), { enabled: true, text: ' a ' });
+    const disabled = Object.assign(new TestClass(), { enabled: false, text: ' text ' });
+    const enabled = Object.assign(new TestClass(), { enabled: true, text: ' text ' });
+
+    sanitize(short);
+    sanitize(disabled);
+    sanitize(enabled);
+
+    expect(short.text).toBe(' a ');
+    expect(disabled.text).toBe(' text ');
+    expect(enabled.text).toBe('text');
+  });
+
+  it('should guard the rules of the property when groups are requested', () => {
+    class TestClass {
+      @SanitizeIf((object: TestClass) => object.country === 'US')
+      @Trim(undefined, { groups: ['create'] })
+      phone: string;
+
+      country: string;
+    }
+
+    const foreign = Object.assign(new TestClass(), { phone: ' 1 ', country: 'HU' });
+    const domestic = Object.assign(new TestClass(), { phone: ' 1 ', country: 'US' });
+
+    sanitize(foreign, { groups: ['create'] });
+    sanitize(domestic, { groups: ['create'] });
+
+    expect(foreign.phone).toBe(' 1 ');
+    expect(domestic.phone).toBe('1');
+  });
+
+  it('should guard the rules applied always', () => {
+    class TestClass {
+      @SanitizeIf((object: TestClass) => object.enabled)
+      @Trim(undefined, { always: true })
+      @Escape()
+      text: string;
+
+      enabled: boolean;
+    }
+
+    const disabled = Object.assign(new TestClass(), { enabled: false, text: ' <b> ' });
+    const enabled = Object.assign(new TestClass(), { enabled: true, text: ' <b> ' });
+
+    sanitize(disabled, { groups: ['update'], always: true });
+    sanitize(enabled, { groups: ['update'] });
+
+    expect(disabled.text).toBe(' <b> ');
+    expect(enabled.text).toBe('<b>');
+  });
+
+  it('should leave the conditions out of the pipeline', () => {
+    class TestClass {
+      @SanitizeIf(() => true)
+      @Trim()
+      text: string;
+    }
+
+    expect(getSanitationPipeline(TestClass).get('text')).toEqual([expect.objectContaining({ type: 'TRIM' })]);
+  });
+});
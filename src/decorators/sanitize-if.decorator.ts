@@ -0,0 +1,21 @@
+import { getMetadataStorage } from '../active-metadata-storage';
+import { SanitizeTypes } from '../enums';
+
+/**
+ * Applies the other rules of the property only when the given condition returns true. The condition receives the
+ * object and the current value of the property and it is evaluated before the first rule of the property is applied.
+ * Conditions belong to every sanitation group and they always run before the rules, so they take no options.
+ */
+export function SanitizeIf(condition: (object: any, value: any) => boolean): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.CONDITIONAL,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: condition,
+      },
+      'sanitation'
+    );
+  };
+}
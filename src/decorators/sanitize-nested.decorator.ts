@@ -1,18 +1,32 @@
-import { defaultMetadataStorage } from '../default-storage.const';
+import { getMetadataStorage } from '../active-metadata-storage';
 import { SanitationOptions } from '../interfaces';
 import { SanitizeTypes } from '../enums';
 
 /**
- * Indicates if nested object should be sanitized as well.
+ * Indicates if nested object should be sanitized as well. The optional type function returns the class of the nested
+ * object, it is used by `sanitizePlain` to turn nested plain objects into class instances.
  */
-export function SanitizeNested(annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function SanitizeNested(annotationOptions?: SanitationOptions): PropertyDecorator;
+export function SanitizeNested(typeFunction: () => Function, annotationOptions?: SanitationOptions): PropertyDecorator;
+export function SanitizeNested(
+  typeFunctionOrOptions?: (() => Function) | SanitationOptions,
+  annotationOptions: SanitationOptions = {}
+): PropertyDecorator {
+  const typeFunction = typeof typeFunctionOrOptions === 'function' ? typeFunctionOrOptions : undefined;
+  const options = typeof typeFunctionOrOptions === 'function' ? annotationOptions : typeFunctionOrOptions || {};
+
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.NESTED,
         target: target as Function,
         propertyName: propertyName,
-        each: annotationOptions.each,
+        value1: typeFunction,
+        each: options.each,
+        keys: options.keys,
+        groups: options.groups,
+        always: options.always,
+        order: options.order,
       },
       'sanitation'
     );
@@ -1,19 +1,27 @@
-import { defaultMetadataStorage } from '../default-storage.const';
-import { SanitationOptions } from '../interfaces';
+import { getMetadataStorage } from '../active-metadata-storage';
+import { CustomSanitationOptions } from '../interfaces';
 import { SanitizeTypes } from '../enums';
 
 /**
- * Performs sanitation based on the given custom constraint.
+ * Performs sanitation based on the given custom constraint. The constraints given in the options are passed to it.
  */
-export function Sanitize(constraintClass: Function, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function Sanitize(
+  constraintClass: Function,
+  annotationOptions: CustomSanitationOptions = {}
+): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.CUSTOM_SANITIZATION,
         target: target as Function,
         propertyName: propertyName,
         value1: constraintClass,
+        value2: annotationOptions.constraints,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
       },
       'sanitation'
     );
@@ -1,7 +1,7 @@
 import { defaultMetadataStorage } from '../default-storage.const';
-import { Sanitize, SanitizerConstraint } from '../decorators';
-import { CustomSanitizer } from '../interfaces';
-import { sanitize } from '..';
+import { Sanitize, SanitizerConstraint, SanitizeNested, Trim } from '../decorators';
+import { CustomSanitizer, SanitationArguments } from '../interfaces';
+import { sanitize, sanitizeAsync } from '..';
 
 describe('SanitizerConstraint', () => {
   /** We need to reset the metadata storage before each test to isolate them. */
@@ -48,4 +48,162 @@ describe('SanitizerConstraint', () => {
 
     expect(instance.text[0]).toBe('added original');
   });
+
+  it('should await asynchronous custom decorators in async mode', async () => {
+    @SanitizerConstraint()
+    class CountryCodeSanitizer implements CustomSanitizer {
+      sanitize(value: string): Promise<string> {
+        return new Promise(resolve => setTimeout(() => resolve(value === 'Hungary' ? 'HU' : value), 1));
+      }
+    }
+
+    class TestClass {
+      @Sanitize(CountryCodeSanitizer)
+      @Trim()
+      country: string;
+    }
+
+    const instance = new TestClass();
+    instance.country = ' Hungary ';
+
+    const result = await sanitizeAsync(instance);
+
+    expect(result).toBe(instance);
+    expect(instance.country).toBe('HU');
+  });
+
+  it('should await asynchronous custom decorators in arrays and nested objects in order', async () => {
+    const calls: string[] = [];
+
+    @SanitizerConstraint()
+    class DelayedSanitizer implements CustomSanitizer {
+      async sanitize(value: string): Promise<string> {
+        calls.push(`start ${value}`);
+        await new Promise(resolve => setTimeout(resolve, value === 'a' ? 5 : 1));
+        calls.push(`end ${value}`);
+        return value.toUpperCase();
+      }
+    }
+
+    class InnerTestClass {
+      @Sanitize(DelayedSanitizer)
+      text: string;
+    }
+
+    class TestClass {
+      @Sanitize(DelayedSanitizer, { each: true })
+      texts: string[];
+
+      @SanitizeNested({ each: true })
+      children: InnerTestClass[];
+    }
+
+    const instance = new TestClass();
+    instance.texts = ['a', 'b'];
+    instance.children = [Object.assign(new InnerTestClass(), { text: 'c' })];
+
+    await sanitizeAsync(instance);
+
+    expect(instance.texts).toEqual(['A', 'B']);
+    expect(instance.children[0].text).toBe('C');
+    expect(calls).toEqual(['start a', 'end a', 'start b', 'end b', 'start c', 'end c']);
+  });
+
+  it('should reject when an asynchronous custom decorator rejects', async () => {
+    @SanitizerConstraint()
+    class FailingSanitizer implements CustomSanitizer {
+      sanitize(): Promise<string> {
+        return Promise.reject(new Error('lookup failed'));
+      }
+    }
+
+    class TestClass {
+      @Sanitize(FailingSanitizer)
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'original';
+
+    await expect(sanitizeAsync(instance)).rejects.toThrow('lookup failed');
+  });
+
+  it('should throw when an asynchronous custom decorator is used in sync mode', () => {
+    @SanitizerConstraint()
+    class AsyncSanitizer implements CustomSanitizer {
+      sanitize(value: string): Promise<string> {
+        return Promise.resolve(value);
+      }
+    }
+
+    class TestClass {
+      @Sanitize(AsyncSanitizer)
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'original';
+
+    expect(() => sanitize(instance)).toThrow(
+      'Custom sanitizer AsyncSanitizer returned a Promise, use sanitizeAsync() to run asynchronous sanitizers.'
+    );
+  });
+
+  it('should pass the constraints to custom decorators', () => {
+    @SanitizerConstraint()
+    class Truncate implements CustomSanitizer {
+      sanitize(value: string, args: SanitationArguments): string {
+        return value.slice(0, args.constraints[0]);
+      }
+    }
+
+    class TestClass {
+      @Sanitize(Truncate, { constraints: [5] })
+      short: string;
+
+      @Sanitize(Truncate, { constraints: [10] })
+      long: string;
+    }
+
+    const instance = new TestClass();
+    instance.short = 'original text';
+    instance.long = 'original text';
+
+    sanitize(instance);
+
+    expect(instance.short).toBe('origi');
+    expect(instance.long).toBe('original t');
+  });
+
+  it('should pass the context of the value to custom decorators', () => {
+    const received: SanitationArguments[] = [];
+
+    @SanitizerConstraint()
+    class ContextRecorder implements CustomSanitizer {
+      sanitize(value: string, args: SanitationArguments): string {
+        received.push(args);
+        return value;
+      }
+    }
+
+    class InnerTestClass {
+      @Sanitize(ContextRecorder, { each: true })
+      texts: string[];
+    }
+
+    class TestClass {
+      @SanitizeNested()
+      child: InnerTestClass;
+    }
+
+    const instance = new TestClass();
+    instance.child = new InnerTestClass();
+    instance.child.texts = ['a'];
+
+    sanitize(instance, { groups: ['create'], always: true });
+
+    expect(received).toEqual([
+      { constraints: [], object: instance.child, property: 'texts', path: 'child.texts[0]', groups: ['create'] },
+    ]);
+  });
 });
@@ -1,10 +1,12 @@
-import { defaultMetadataStorage } from '../default-storage.const';
+import { getMetadataStorage } from '../active-metadata-storage';
+import { SanitizerConstraintOptions } from '../interfaces';
 
 /**
- * Decorator used to register custom sanitizer.
+ * Decorator used to register custom sanitizer. The name given in the options can be used to reference the sanitizer
+ * in sanitation schemas.
  */
-export function SanitizerConstraint() {
+export function SanitizerConstraint(options: SanitizerConstraintOptions = {}) {
   return function (target: new (...args: any[]) => any) {
-    defaultMetadataStorage.addMetadata({ target }, 'constraint');
+    getMetadataStorage().addMetadata({ target, name: options.name }, 'constraint');
   };
 }
@@ -1,4 +1,4 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
+import { getMetadataStorage } from '../../active-metadata-storage';
 import { SanitationOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
@@ -8,13 +8,17 @@ import { SanitizeTypes } from '../../enums';
  */
 export function Blacklist(chars: string, annotationOptions: SanitationOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.BLACKLIST,
         target: target as Function,
         propertyName: propertyName,
         value1: chars,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
       },
       'sanitation'
     );
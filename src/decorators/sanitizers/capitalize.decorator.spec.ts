@@ -0,0 +1,63 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Capitalize } from '..';
+import { sanitize } from '../..';
+
+describe('Capitalize', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert the first character to upper case', () => {
+    class TestClass {
+      @Capitalize()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'hello World';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('Hello World');
+  });
+
+  it('should use the case mappings of the given locale', () => {
+    class TestClass {
+      @Capitalize('tr')
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'izmir';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('\u0130zmir');
+  });
+
+  it('should leave empty value untouched', () => {
+    class TestClass {
+      @Capitalize()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = '';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @Capitalize(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['text'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('Text');
+  });
+});
@@ -0,0 +1,25 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitationOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Convert the first character of the input to upper case, using the case mappings of the given locale when set.
+ */
+export function Capitalize(locale?: string, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.CAPITALIZE,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: locale,
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
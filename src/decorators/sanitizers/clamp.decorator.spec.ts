@@ -0,0 +1,63 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Clamp } from '..';
+import { sanitize } from '../..';
+
+describe('Clamp', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should limit value to the given range', () => {
+    class TestClass {
+      @Clamp(0, 10)
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = 42;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(10);
+  });
+
+  it('should limit value to the given minimum only', () => {
+    class TestClass {
+      @Clamp(0)
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = -5;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(0);
+  });
+
+  it('should leave values which are not numbers untouched', () => {
+    class TestClass {
+      @Clamp(0, 10)
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '42';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe('42');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @Clamp(0, 10, { each: true })
+      values: any[];
+    }
+
+    const instance = new TestClass();
+    instance.values = [-1, 5, 11];
+
+    sanitize(instance);
+
+    expect(instance.values).toEqual([0, 5, 10]);
+  });
+});
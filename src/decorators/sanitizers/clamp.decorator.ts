@@ -0,0 +1,27 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitationOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Limit the number to the range between min and max, both of them are optional. Values which are not numbers are
+ * left untouched.
+ */
+export function Clamp(min?: number, max?: number, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.CLAMP,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: min,
+        value2: max,
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
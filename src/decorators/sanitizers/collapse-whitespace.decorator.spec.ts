@@ -0,0 +1,49 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { CollapseWhitespace } from '..';
+import { sanitize } from '../..';
+
+describe('CollapseWhitespace', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should collapse whitespace to a single space', () => {
+    class TestClass {
+      @CollapseWhitespace()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'a  \t b\r\n\n c';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a b c');
+  });
+
+  it('should keep line breaks and remove trailing whitespace of the lines', () => {
+    class TestClass {
+      @CollapseWhitespace(true)
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = ' a \t b  \r\n c\t\n\nd ';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe(' a b\r\n c\n\nd');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @CollapseWhitespace(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['a   b'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('a b');
+  });
+});
@@ -0,0 +1,29 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitationOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Replace every run of whitespace characters with a single space. If keepNewLines is true, line breaks are
+ * preserved and the whitespace at the end of the lines is removed.
+ */
+export function CollapseWhitespace(
+  keepNewLines?: boolean,
+  annotationOptions: SanitationOptions = {}
+): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.COLLAPSE_WHITESPACE,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: keepNewLines,
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -0,0 +1,64 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Default } from '..';
+import { sanitize } from '../..';
+
+describe('Default', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should set the default value for null and undefined values', () => {
+    class TestClass {
+      @Default('draft')
+      statusA: string;
+
+      @Default('draft')
+      statusB: string;
+
+      @Default('draft')
+      statusC: string;
+    }
+
+    const instance = new TestClass();
+    instance.statusB = null;
+    instance.statusC = 'published';
+
+    sanitize(instance);
+
+    expect(instance).toEqual({ statusA: 'draft', statusB: 'draft', statusC: 'published' });
+  });
+
+  it('should call the factory with the object to create the default value', () => {
+    class TestClass {
+      @Default((object: TestClass) => (object.tags ? object.tags.length : 0))
+      count: number;
+
+      @Default(() => [])
+      tags: string[];
+    }
+
+    const first = Object.assign(new TestClass(), { tags: ['a', 'b'] });
+    const second = new TestClass();
+    const third = new TestClass();
+
+    sanitize(first);
+    sanitize(second);
+    sanitize(third);
+
+    expect(first.count).toBe(2);
+    expect(second.tags).toEqual([]);
+    expect(second.tags).not.toBe(third.tags);
+  });
+
+  it('should set the default value of missing items in array property with "each: true"', () => {
+    class TestClass {
+      @Default(0, { each: true })
+      values: number[];
+    }
+
+    const instance = new TestClass();
+    instance.values = [1, null, undefined];
+
+    sanitize(instance);
+
+    expect(instance.values).toEqual([1, 0, 0]);
+  });
+});
@@ -0,0 +1,26 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitationOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Set the value to the given default value when it is null or undefined. When a function is given it is called with
+ * the object to create the default value.
+ */
+export function Default(valueOrFactory: any, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.DEFAULT,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: valueOrFactory,
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
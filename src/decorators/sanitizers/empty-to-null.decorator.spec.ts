@@ -0,0 +1,40 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { EmptyToNull } from '..';
+import { sanitize } from '../..';
+
+describe('EmptyToNull', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert empty strings to null', () => {
+    class TestClass {
+      @EmptyToNull()
+      textA: string;
+
+      @EmptyToNull()
+      textB: string;
+    }
+
+    const instance = new TestClass();
+    instance.textA = '';
+    instance.textB = ' ';
+
+    sanitize(instance);
+
+    expect(instance.textA).toBeNull();
+    expect(instance.textB).toBe(' ');
+  });
+
+  it('should convert empty strings to null in array property with "each: true"', () => {
+    class TestClass {
+      @EmptyToNull({ each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['', 'text'];
+
+    sanitize(instance);
+
+    expect(instance.text).toEqual([null, 'text']);
+  });
+});
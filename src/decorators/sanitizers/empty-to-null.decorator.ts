@@ -0,0 +1,24 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitationOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Convert empty strings to null.
+ */
+export function EmptyToNull(annotationOptions: SanitationOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.EMPTY_TO_NULL,
+        target: target as Function,
+        propertyName: propertyName,
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -1,4 +1,4 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
+import { getMetadataStorage } from '../../active-metadata-storage';
 import { SanitationOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
@@ -7,13 +7,17 @@ import { SanitizeTypes } from '../../enums';
  */
 export function Ltrim(chars: string = ' ', annotationOptions: SanitationOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.LTRIM,
         target: target as Function,
         propertyName: propertyName,
         value1: chars,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
       },
       'sanitation'
     );
@@ -1,19 +1,26 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
-import { SanitationOptions } from '../../interfaces';
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { CoercionOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
 /**
- * Normalizes the received email address.
+ * Normalizes the received email address, or returns false if the input is not an email address. Use the
+ * `onInvalid` option to write back something else for invalid input.
  */
-export function NormalizeEmail(lowercase?: boolean, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function NormalizeEmail(lowercase?: boolean, annotationOptions: CoercionOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.NORMALIZE_EMAIL,
         target: target as Function,
         propertyName: propertyName,
         value1: lowercase,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
       },
       'sanitation'
     );
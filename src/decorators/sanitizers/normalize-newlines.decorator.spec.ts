@@ -0,0 +1,92 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { NormalizeNewlines } from '..';
+import { sanitize, Sanitizer } from '../..';
+
+describe('NormalizeNewlines', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert line endings to \\n by default', () => {
+    class TestClass {
+      @NormalizeNewlines()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'a\r\nb\rc\nd';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a\nb\nc\nd');
+  });
+
+  it('should convert line endings to the given one', () => {
+    class TestClass {
+      @NormalizeNewlines({ to: '\r\n' })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'a\nb\rc';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a\r\nb\r\nc');
+  });
+
+  it('should limit the number of consecutive line breaks', () => {
+    class TestClass {
+      @NormalizeNewlines({ maxConsecutive: 2 })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'a\r\n\r\n\r\n\nb\n\nc\nd';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a\n\nb\n\nc\nd');
+  });
+
+  it('should limit the consecutive line breaks converted to \\r\\n', () => {
+    class TestClass {
+      @NormalizeNewlines({ to: '\r\n', maxConsecutive: 1 })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'a\n\r\n\rb';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a\r\nb');
+  });
+
+  it('should throw an error when the decorator receives an invalid maxConsecutive', () => {
+    expect(() => NormalizeNewlines({ maxConsecutive: 0 })).toThrow(
+      'The maxConsecutive option must be an integer of at least 1, received 0.'
+    );
+    expect(() => NormalizeNewlines({ maxConsecutive: 1.5 })).toThrow(
+      'The maxConsecutive option must be an integer of at least 1, received 1.5.'
+    );
+  });
+
+  it('should throw an error when the method receives an invalid maxConsecutive', () => {
+    expect(() => Sanitizer.normalizeNewlines('a\n\nb', { maxConsecutive: -1 })).toThrow(
+      'The maxConsecutive option must be an integer of at least 1, received -1.'
+    );
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @NormalizeNewlines({ each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['a\r\nb'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('a\nb');
+  });
+});
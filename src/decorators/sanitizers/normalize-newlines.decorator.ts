@@ -0,0 +1,29 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { NormalizeNewlinesOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+import { validateMaxConsecutive } from '../../text-transforms';
+
+/**
+ * Convert every line ending (`\r\n`, `\r` and `\n`) to the given one (`\n` by default) and limit the number of
+ * consecutive line breaks when maxConsecutive is set. An invalid maxConsecutive throws when the decorator is applied.
+ */
+export function NormalizeNewlines(annotationOptions: NormalizeNewlinesOptions = {}): PropertyDecorator {
+  validateMaxConsecutive(annotationOptions.maxConsecutive);
+
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.NORMALIZE_NEWLINES,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: { to: annotationOptions.to, maxConsecutive: annotationOptions.maxConsecutive },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -0,0 +1,82 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { NormalizeUnicode } from '..';
+import { sanitize } from '../..';
+
+describe('NormalizeUnicode', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should normalize value to NFC by default', () => {
+    class TestClass {
+      @NormalizeUnicode()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Jose\u0301';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('Jos\u00E9');
+  });
+
+  it('should normalize value to the given form', () => {
+    class TestClass {
+      @NormalizeUnicode('NFD')
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Jos\u00E9';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('Jose\u0301');
+  });
+
+  it('should strip zero-width and bidi control characters', () => {
+    class TestClass {
+      @NormalizeUnicode('NFC', { stripZeroWidth: true, stripBidi: true })
+      username: string;
+
+      @NormalizeUnicode('NFC', { stripZeroWidth: true })
+      search: string;
+    }
+
+    const instance = new TestClass();
+    instance.username = '\u202Eadmin\u200B\u2066';
+    instance.search = '\u202Eadmin\u200B\uFEFF';
+
+    sanitize(instance);
+
+    expect(instance.username).toBe('admin');
+    expect(instance.search).toBe('\u202Eadmin');
+  });
+
+  it('should fold compatibility characters', () => {
+    class TestClass {
+      @NormalizeUnicode('NFC', { foldCompatibility: true })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = '\uFF21\u00A0\uFB01';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('A fi');
+  });
+
+  it('should normalize value in array property with "each: true"', () => {
+    class TestClass {
+      @NormalizeUnicode('NFC', { each: true, stripZeroWidth: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['te\u200Bxt'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('text');
+  });
+});
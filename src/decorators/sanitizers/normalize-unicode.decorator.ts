@@ -0,0 +1,34 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { NormalizeUnicodeOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Normalize the input to the given Unicode normalization form (NFC by default). Zero-width and bidirectional control
+ * characters can be removed and compatibility characters can be folded as well.
+ */
+export function NormalizeUnicode(
+  form: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' = 'NFC',
+  annotationOptions: NormalizeUnicodeOptions = {}
+): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.NORMALIZE_UNICODE,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: form,
+        value2: {
+          stripZeroWidth: annotationOptions.stripZeroWidth,
+          stripBidi: annotationOptions.stripBidi,
+          foldCompatibility: annotationOptions.foldCompatibility,
+        },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -0,0 +1,114 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { NormalizeUrl } from '..';
+import { sanitize } from '../..';
+
+describe('NormalizeUrl', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should lower case the scheme and the host and remove the default port', () => {
+    class TestClass {
+      @NormalizeUrl()
+      propA: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: ' HTTPS://Example.COM:443/Path/Page ' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('https://example.com/Path/Page');
+  });
+
+  it('should convert internationalized domain names to punycode', () => {
+    class TestClass {
+      @NormalizeUrl()
+      propA: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: 'http://münchen.de:8080/' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('http://xn--mnchen-3ya.de:8080/');
+  });
+
+  it('should remove the tracking parameters and sort the query', () => {
+    class TestClass {
+      @NormalizeUrl()
+      propA: string;
+
+      @NormalizeUrl({ stripTrackingParams: false, sortQuery: false })
+      propB: string;
+
+      @NormalizeUrl()
+      propC: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: 'https://example.com/?b=2&utm_source=mail&a=1#top',
+      propB: 'https://example.com/?b=2&utm_source=mail&a=1',
+      propC: 'https://example.com/?utm_medium=social',
+    });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('https://example.com/?a=1&b=2#top');
+    expect(instance.propB).toBe('https://example.com/?b=2&utm_source=mail&a=1');
+    expect(instance.propC).toBe('https://example.com/');
+  });
+
+  it('should keep the parameters as they are written', () => {
+    class TestClass {
+      @NormalizeUrl()
+      propA: string;
+
+      @NormalizeUrl()
+      propB: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: 'https://example.com/?flag&q=a%20b',
+      propB: 'https://example.com/?q=a+b&flag&utm_source=mail&a%5B%5D=1',
+    });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('https://example.com/?flag&q=a%20b');
+    expect(instance.propB).toBe('https://example.com/?a%5B%5D=1&flag&q=a+b');
+  });
+
+  it('should return false for invalid URLs and schemes which are not allowed', () => {
+    class TestClass {
+      @NormalizeUrl()
+      propA: string;
+
+      @NormalizeUrl()
+      propB: string;
+
+      @NormalizeUrl({ allowedSchemes: ['mailto'] })
+      propC: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: 'javascript:alert(1)',
+      propB: '/relative/path',
+      propC: 'MAILTO:info@example.com',
+    });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe(false);
+    expect(instance.propB).toBe(false);
+    expect(instance.propC).toBe('mailto:info@example.com');
+  });
+
+  it('should apply the onInvalid policy to invalid URLs', () => {
+    class TestClass {
+      @NormalizeUrl({ onInvalid: 'null' })
+      propA: string;
+
+      @NormalizeUrl({ onInvalid: 'keep' })
+      propB: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: 'javascript:alert(1)', propB: 'not a url' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBeNull();
+    expect(instance.propB).toBe('not a url');
+  });
+});
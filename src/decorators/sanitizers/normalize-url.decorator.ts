@@ -0,0 +1,32 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { NormalizeUrlOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Normalizes the received URL, or returns false if the input is not an absolute URL with an allowed scheme
+ * (`http` and `https` by default). Use the `onInvalid` option to write back something else for invalid input.
+ */
+export function NormalizeUrl(annotationOptions: NormalizeUrlOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.NORMALIZE_URL,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: {
+          allowedSchemes: annotationOptions.allowedSchemes,
+          stripTrackingParams: annotationOptions.stripTrackingParams,
+          sortQuery: annotationOptions.sortQuery,
+        },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
+      },
+      'sanitation'
+    );
+  };
+}
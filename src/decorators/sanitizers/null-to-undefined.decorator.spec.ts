@@ -0,0 +1,40 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { NullToUndefined } from '..';
+import { sanitize } from '../..';
+
+describe('NullToUndefined', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert null to undefined', () => {
+    class TestClass {
+      @NullToUndefined()
+      textA: string;
+
+      @NullToUndefined()
+      textB: string;
+    }
+
+    const instance = new TestClass();
+    instance.textA = null;
+    instance.textB = 'text';
+
+    sanitize(instance);
+
+    expect(instance.textA).toBeUndefined();
+    expect(instance.textB).toBe('text');
+  });
+
+  it('should convert null to undefined in array property with "each: true"', () => {
+    class TestClass {
+      @NullToUndefined({ each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = [null, 'text'];
+
+    sanitize(instance);
+
+    expect(instance.text).toEqual([undefined, 'text']);
+  });
+});
@@ -0,0 +1,133 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Round } from '..';
+import { sanitize } from '../..';
+
+describe('Round', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should round value to integer by default', () => {
+    class TestClass {
+      @Round()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = 2.5;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(3);
+  });
+
+  it('should round value to the given number of decimals', () => {
+    class TestClass {
+      @Round({ decimals: 2 })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = 1.005;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(1.01);
+  });
+
+  it('should round halves away from zero', () => {
+    class TestClass {
+      @Round()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = -2.5;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(-3);
+  });
+
+  it('should round halves to even with half-even mode', () => {
+    class TestClass {
+      @Round({ mode: 'half-even' })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = 2.5;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(2);
+  });
+
+  it('should round towards positive infinity with ceil mode', () => {
+    class TestClass {
+      @Round({ decimals: 1, mode: 'ceil' })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = -1.25;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(-1.2);
+  });
+
+  it('should round towards negative infinity with floor mode', () => {
+    class TestClass {
+      @Round({ decimals: 1, mode: 'floor' })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = -1.21;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(-1.3);
+  });
+
+  it('should round towards zero with trunc mode', () => {
+    class TestClass {
+      @Round({ mode: 'trunc' })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = -1.9;
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(-1);
+  });
+
+  it('should leave values which are not numbers untouched', () => {
+    class TestClass {
+      @Round()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '2.5';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe('2.5');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @Round({ each: true, decimals: 1 })
+      values: any[];
+    }
+
+    const instance = new TestClass();
+    instance.values = [1.25, 1.35];
+
+    sanitize(instance);
+
+    expect(instance.values).toEqual([1.3, 1.4]);
+  });
+});
@@ -0,0 +1,26 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { RoundOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Round the number to the given number of decimal places (0 by default) with the given mode (`half-up` by default).
+ * Values which are not numbers are left untouched.
+ */
+export function Round(annotationOptions: RoundOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.ROUND,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: { decimals: annotationOptions.decimals, mode: annotationOptions.mode },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
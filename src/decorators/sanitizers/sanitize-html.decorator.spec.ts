@@ -0,0 +1,82 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { SanitizeHtml } from '..';
+import { sanitize, Sanitizer } from '../..';
+
+describe('SanitizeHtml', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should remove tags which are not allowed but keep their text', () => {
+    class TestClass {
+      @SanitizeHtml()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = '<div class="box"><b>bold</b> <span>text</span><img src="x.png"></div>';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('<b>bold</b> text');
+  });
+
+  it('should remove scripts, styles and comments with their content', () => {
+    expect(Sanitizer.sanitizeHtml('a<script>alert("<b>")</script>b<STYLE>p{}</STYLE>c<!-- <b> -->d')).toBe('abcd');
+  });
+
+  it('should remove attributes which are not allowed', () => {
+    expect(Sanitizer.sanitizeHtml('<a href="/page" onclick="steal()" title=\'x\' target=_blank>link</a>')).toBe(
+      '<a href="/page" title="x">link</a>'
+    );
+  });
+
+  it('should remove URLs with disallowed schemes', () => {
+    expect(Sanitizer.sanitizeHtml('<a href="javascript:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(Sanitizer.sanitizeHtml('<a href="JaVa&#x53;cript&colon;alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(Sanitizer.sanitizeHtml('<a href=" java\tscript:alert(1)">a</a>')).toBe('<a>a</a>');
+    expect(Sanitizer.sanitizeHtml('<a href="mailto:a@b.c">a</a>')).toBe('<a href="mailto:a@b.c">a</a>');
+  });
+
+  it('should escape attribute values and stray angle brackets', () => {
+    expect(Sanitizer.sanitizeHtml('1 < 2 > 0 <a title="&quot;x&quot; &amp; y">a</a>')).toBe(
+      '1 &lt; 2 &gt; 0 <a title="&quot;x&quot; &amp; y">a</a>'
+    );
+  });
+
+  it('should close unclosed tags and drop unmatched closing tags', () => {
+    expect(Sanitizer.sanitizeHtml('<ul><li><b>item</ul></i>text<p>end')).toBe(
+      '<ul><li><b>item</b></li></ul>text<p>end</p>'
+    );
+  });
+
+  it('should use the given allowed tags, attributes and schemes', () => {
+    class TestClass {
+      @SanitizeHtml({
+        allowedTags: ['img', 'p'],
+        allowedAttributes: { img: ['src'], '*': ['class'] },
+        allowedSchemes: ['https'],
+      })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = '<p class="x" id="y"><b>a</b><img src="https://a.b/c.png"><img src="http://a.b/c.png"></p>';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('<p class="x">a<img src="https://a.b/c.png"><img></p>');
+  });
+
+  it('should sanitize HTML in array property with "each: true"', () => {
+    class TestClass {
+      @SanitizeHtml({ each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['<b onclick="x()">a</b>'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('<b>a</b>');
+  });
+});
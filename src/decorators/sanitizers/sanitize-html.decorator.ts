@@ -0,0 +1,30 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SanitizeHtmlOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Remove every HTML tag and attribute which is not allowed, and URL attributes with disallowed schemes
+ * (eg: `javascript:`). By default basic formatting tags, lists, paragraphs and links are allowed.
+ */
+export function SanitizeHtml(annotationOptions: SanitizeHtmlOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.SANITIZE_HTML,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: {
+          allowedTags: annotationOptions.allowedTags,
+          allowedAttributes: annotationOptions.allowedAttributes,
+          allowedSchemes: annotationOptions.allowedSchemes,
+        },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -0,0 +1,77 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Slugify } from '..';
+import { sanitize } from '../..';
+
+describe('Slugify', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to slug', () => {
+    class TestClass {
+      @Slugify()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = ' Hello, World! ';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('hello-world');
+  });
+
+  it('should transliterate accented characters', () => {
+    class TestClass {
+      @Slugify()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Cr\u00E8me br\u00FBl\u00E9e \u00E0 la Stra\u00DFe \u0141\u00F3d\u017A';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('creme-brulee-a-la-strasse-lodz');
+  });
+
+  it('should use the given separator and keep the case', () => {
+    class TestClass {
+      @Slugify({ separator: '_', lowercase: false })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Hello World';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('Hello_World');
+  });
+
+  it('should use the transliterations of the given locale', () => {
+    class TestClass {
+      @Slugify({ locale: 'de' })
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'M\u00FCnchen \u00D6sterreich';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('muenchen-oesterreich');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @Slugify({ each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['Hello World'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('hello-world');
+  });
+});
@@ -0,0 +1,30 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { SlugifyOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Convert the input to a URL friendly slug. Accented characters are transliterated, every other character which is
+ * not a letter or a digit is removed and the words are joined with the separator (`-` by default).
+ */
+export function Slugify(annotationOptions: SlugifyOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.SLUGIFY,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: {
+          separator: annotationOptions.separator,
+          locale: annotationOptions.locale,
+          lowercase: annotationOptions.lowercase,
+        },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
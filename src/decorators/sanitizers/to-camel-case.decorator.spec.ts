@@ -0,0 +1,63 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { ToCamelCase } from '..';
+import { sanitize } from '../..';
+
+describe('ToCamelCase', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to camel case', () => {
+    class TestClass {
+      @ToCamelCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'user first-name';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('userFirstName');
+  });
+
+  it('should split words at case changes and acronyms', () => {
+    class TestClass {
+      @ToCamelCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'XMLHttpRequest_v2';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('xmlHttpRequestV2');
+  });
+
+  it('should keep accented letters', () => {
+    class TestClass {
+      @ToCamelCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = '\u00E9l\u00E9ment fran\u00E7ais';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('\u00E9l\u00E9mentFran\u00E7ais');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @ToCamelCase(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['first_name'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('firstName');
+  });
+});
@@ -45,4 +45,156 @@ describe('ToDate', () => {
     expect(instance.propA[0]).toBeInstanceOf(Date);
     expect(((instance.propA[0] as any) as Date).toISOString()).toBe('2000-12-24T19:00:00.000Z');
   });
+
+  it('should convert objects without toString method to null', () => {
+    class TestClass {
+      @ToDate()
+      propA: any;
+    }
+    const instance = new TestClass();
+    instance.propA = Object.create(null);
+
+    sanitize(instance);
+
+    expect(instance.propA).toBeNull();
+  });
+
+  it('should parse strings only by the given formats', () => {
+    class TestClass {
+      @ToDate({ formats: ['DD/MM/YYYY', 'YYYY-MM-DD HH:mm'] })
+      propA: any;
+
+      @ToDate({ formats: ['DD/MM/YYYY'] })
+      propB: any;
+
+      @ToDate({ formats: ['DD/MM/YYYY'] })
+      propC: any;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: '03/04/2024',
+      propB: '2024-04-03',
+      propC: '31/02/2024',
+    });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('2024-04-03T00:00:00.000Z');
+    expect(instance.propB).toBeNull();
+    expect(instance.propC).toBeNull();
+  });
+
+  it('should parse years before 100 by the formats', () => {
+    class TestClass {
+      @ToDate({ formats: ['YYYY-MM-DD'] })
+      propA: any;
+
+      @ToDate({ formats: ['YYYY-MM-DD HH:mm'] })
+      propB: any;
+    }
+    const instance = Object.assign(new TestClass(), { propA: '0024-01-01', propB: '0000-02-29 10:30' });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('0024-01-01T00:00:00.000Z');
+    expect((instance.propB as Date).getUTCFullYear()).toBe(0);
+    expect((instance.propB as Date).getUTCMonth()).toBe(1);
+    expect((instance.propB as Date).getUTCDate()).toBe(29);
+    expect((instance.propB as Date).getUTCHours()).toBe(10);
+  });
+
+  it('should use the UTC offset of the input over the timezone', () => {
+    class TestClass {
+      @ToDate({ formats: ['YYYY-MM-DDTHH:mm:ssZ'], timezone: 'Asia/Tokyo' })
+      propA: any;
+    }
+    const instance = Object.assign(new TestClass(), { propA: '2024-04-03T10:00:00+02:00' });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('2024-04-03T08:00:00.000Z');
+  });
+
+  it('should read numbers as Unix timestamps in the given unit', () => {
+    class TestClass {
+      @ToDate({ unixTimestamp: 'seconds' })
+      propA: any;
+
+      @ToDate({ unixTimestamp: 'milliseconds' })
+      propB: any;
+
+      @ToDate({ unixTimestamp: 'seconds' })
+      propC: any;
+    }
+    const instance = Object.assign(new TestClass(), { propA: 1712131200, propB: 1712131200000, propC: '1712131200' });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('2024-04-03T08:00:00.000Z');
+    expect((instance.propB as Date).toISOString()).toBe('2024-04-03T08:00:00.000Z');
+    expect((instance.propC as Date).toISOString()).toBe('2024-04-03T08:00:00.000Z');
+  });
+
+  it('should read input without UTC offset in the given timezone', () => {
+    class TestClass {
+      @ToDate({ timezone: '+02:00' })
+      propA: any;
+
+      @ToDate({ timezone: 'Europe/Budapest' })
+      propB: any;
+
+      @ToDate({ timezone: 'Europe/Budapest' })
+      propC: any;
+
+      @ToDate({ timezone: 'Europe/Budapest' })
+      propD: any;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: '2024-04-03T10:00',
+      propB: '2024-01-15 10:00:00',
+      propC: '2024-07-15T10:00:00',
+      propD: '2024-07-15T10:00:00Z',
+    });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('2024-04-03T08:00:00.000Z');
+    expect((instance.propB as Date).toISOString()).toBe('2024-01-15T09:00:00.000Z');
+    expect((instance.propC as Date).toISOString()).toBe('2024-07-15T08:00:00.000Z');
+    expect((instance.propD as Date).toISOString()).toBe('2024-07-15T10:00:00.000Z');
+  });
+
+  it('should truncate the date to the start of the day in the timezone', () => {
+    class TestClass {
+      @ToDate({ truncateToDay: true })
+      propA: any;
+
+      @ToDate({ truncateToDay: true, timezone: 'America/New_York' })
+      propB: any;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: '2024-04-03T23:30:00Z',
+      propB: '2024-04-03T02:30:00Z',
+    });
+
+    sanitize(instance);
+
+    expect((instance.propA as Date).toISOString()).toBe('2024-04-03T00:00:00.000Z');
+    expect((instance.propB as Date).toISOString()).toBe('2024-04-02T04:00:00.000Z');
+  });
+
+  it('should return ISO strings when the output is iso', () => {
+    class TestClass {
+      @ToDate({ output: 'iso', formats: ['DD.MM.YYYY'] })
+      propA: any;
+
+      @ToDate({ output: 'iso', formats: ['DD.MM.YYYY'], onInvalid: 'undefined' })
+      propB: any;
+    }
+    const instance = Object.assign(new TestClass(), { propA: '03.04.2024', propB: 'xxxxx' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('2024-04-03T00:00:00.000Z');
+    expect(instance.propB).toBeUndefined();
+  });
 });
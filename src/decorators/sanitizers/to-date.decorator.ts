@@ -1,18 +1,33 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
-import { SanitationOptions } from '../../interfaces';
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { ToDateOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
 /**
- * Convert the input to a date, or null if the input is not a date.
+ * Convert the input to a date, or null if the input is not a date. Use the `onInvalid` option to write back
+ * something else for invalid input. Strings are parsed by the given formats, numbers are read as Unix timestamps
+ * when the unit is given and input without UTC offset is read in the given timezone.
  */
-export function ToDate(annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function ToDate(annotationOptions: ToDateOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.TO_DATE,
         target: target as Function,
         propertyName: propertyName,
+        value1: {
+          formats: annotationOptions.formats,
+          unixTimestamp: annotationOptions.unixTimestamp,
+          timezone: annotationOptions.timezone,
+          truncateToDay: annotationOptions.truncateToDay,
+          output: annotationOptions.output,
+        },
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
       },
       'sanitation'
     );
@@ -1,18 +1,25 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
-import { SanitationOptions } from '../../interfaces';
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { CoercionOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
 /**
- * Convert the input to a float.
+ * Convert the input to a float, or NaN if the input is not a float. Use the `onInvalid` option to write back
+ * something else for invalid input.
  */
-export function ToFloat(annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function ToFloat(annotationOptions: CoercionOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.TO_FLOAT,
         target: target as Function,
         propertyName: propertyName,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
       },
       'sanitation'
     );
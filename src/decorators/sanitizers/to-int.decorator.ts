@@ -1,19 +1,26 @@
-import { defaultMetadataStorage } from '../../default-storage.const';
-import { SanitationOptions } from '../../interfaces';
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { CoercionOptions } from '../../interfaces';
 import { SanitizeTypes } from '../../enums';
 
 /**
- * Convert the input to an integer, or NaN if the input is not an integer.
+ * Convert the input to an integer, or NaN if the input is not an integer. Use the `onInvalid` option to write back
+ * something else for invalid input.
  */
-export function ToInt(radix?: number, annotationOptions: SanitationOptions = {}): PropertyDecorator {
+export function ToInt(radix?: number, annotationOptions: CoercionOptions = {}): PropertyDecorator {
   return function (target: Object, propertyName: string | symbol) {
-    defaultMetadataStorage.addMetadata(
+    getMetadataStorage().addMetadata(
       {
         type: SanitizeTypes.TO_INT,
         target: target as Function,
         propertyName: propertyName,
         value1: radix,
         each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
       },
       'sanitation'
     );
@@ -0,0 +1,49 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { ToLowerCase } from '..';
+import { sanitize } from '../..';
+
+describe('ToLowerCase', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to lower case', () => {
+    class TestClass {
+      @ToLowerCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Hello WORLD';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('hello world');
+  });
+
+  it('should use the case mappings of the given locale', () => {
+    class TestClass {
+      @ToLowerCase('tr')
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'ISTANBUL';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('\u0131stanbul');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @ToLowerCase(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['TEXT'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('text');
+  });
+});
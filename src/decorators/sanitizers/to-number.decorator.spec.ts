@@ -0,0 +1,166 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { ToNumber } from '..';
+import { sanitize } from '../..';
+
+/** Runtimes built without full ICU data have no separators for other locales than `en`. */
+const LOCALES = ['de', 'fr', 'en-IN'];
+const describeWithLocales = LOCALES.every(locale => new Intl.NumberFormat(locale).resolvedOptions().locale === locale)
+  ? describe
+  : describe.skip;
+
+describe('ToNumber', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to number', () => {
+    class TestClass {
+      @ToNumber()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '1,234.5';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(1234.5);
+  });
+
+  it('should ignore currency symbols and codes with allowCurrency', () => {
+    class TestClass {
+      @ToNumber({ allowCurrency: true })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '$ 1,200';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(1200);
+  });
+
+  it('should convert value with currency to NaN without allowCurrency', () => {
+    class TestClass {
+      @ToNumber()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '$ 1,200';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(NaN);
+  });
+
+  it('should convert invalid value to NaN', () => {
+    class TestClass {
+      @ToNumber()
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = '12abc';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(NaN);
+  });
+
+  it('should apply the onInvalid policy', () => {
+    class TestClass {
+      @ToNumber({ onInvalid: 'null' })
+      value: any;
+    }
+
+    const instance = new TestClass();
+    instance.value = 'abc';
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(null);
+  });
+
+  it('should convert values with misplaced grouping separators to NaN', () => {
+    class TestClass {
+      @ToNumber({ each: true })
+      values: any[];
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      values: ['1,5', '1,2,3,4', '1.234,56', '12,345.6', '1 234'],
+    });
+
+    sanitize(instance);
+
+    expect(instance.values).toEqual([NaN, NaN, NaN, 12345.6, 1234]);
+  });
+
+  it('should throw an error for locales not supported by the runtime', () => {
+    class TestClass {
+      @ToNumber({ locale: 'xx' })
+      value: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { value: '1' });
+
+    expect(() => sanitize(instance)).toThrow("The 'xx' locale is not supported by the runtime.");
+  });
+
+  describeWithLocales('with other locales', () => {
+    it('should use the separators of the given locale', () => {
+      class TestClass {
+        @ToNumber({ locale: 'de' })
+        value: any;
+      }
+
+      const instance = new TestClass();
+      instance.value = '-1.234,56';
+
+      sanitize(instance);
+
+      expect(instance.value).toBe(-1234.56);
+    });
+
+    it('should ignore currency codes with allowCurrency', () => {
+      class TestClass {
+        @ToNumber({ locale: 'de', allowCurrency: true })
+        value: any;
+      }
+
+      const instance = new TestClass();
+      instance.value = '1.200,50 EUR';
+
+      sanitize(instance);
+
+      expect(instance.value).toBe(1200.5);
+    });
+
+    it('should convert value in array property with "each: true"', () => {
+      class TestClass {
+        @ToNumber({ each: true, locale: 'fr' })
+        values: any[];
+      }
+
+      const instance = new TestClass();
+      instance.values = ['1\u202F234,5'];
+
+      sanitize(instance);
+
+      expect(instance.values).toEqual([1234.5]);
+    });
+
+    it('should use the group sizes of the given locale', () => {
+      class TestClass {
+        @ToNumber({ locale: 'en-IN', each: true })
+        values: any[];
+      }
+
+      const instance = Object.assign(new TestClass(), { values: ['12,34,567.5', '1,234,567.5'] });
+
+      sanitize(instance);
+
+      expect(instance.values).toEqual([1234567.5, NaN]);
+    });
+  });
+});
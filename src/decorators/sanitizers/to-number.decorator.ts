@@ -0,0 +1,29 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { ToNumberOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Convert the input to a number written in the format of the given locale (`en` by default), or NaN if the input
+ * is not a number. Misplaced grouping separators make the input invalid, currency symbols and codes are ignored
+ * when allowCurrency is set.
+ */
+export function ToNumber(annotationOptions: ToNumberOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.TO_NUMBER,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: { locale: annotationOptions.locale, allowCurrency: annotationOptions.allowCurrency },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+        onInvalid: annotationOptions.onInvalid,
+        fallback: annotationOptions.fallback,
+      },
+      'sanitation'
+    );
+  };
+}
@@ -0,0 +1,49 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { ToSnakeCase } from '..';
+import { sanitize } from '../..';
+
+describe('ToSnakeCase', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to snake case', () => {
+    class TestClass {
+      @ToSnakeCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'userFirstName';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('user_first_name');
+  });
+
+  it('should split words at non-alphanumeric characters and acronyms', () => {
+    class TestClass {
+      @ToSnakeCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'HTMLParser - Version 2';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('html_parser_version_2');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @ToSnakeCase(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['firstName'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('first_name');
+  });
+});
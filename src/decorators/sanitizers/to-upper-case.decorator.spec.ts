@@ -0,0 +1,49 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { ToUpperCase } from '..';
+import { sanitize } from '../..';
+
+describe('ToUpperCase', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should convert value to upper case', () => {
+    class TestClass {
+      @ToUpperCase()
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'Hello world';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('HELLO WORLD');
+  });
+
+  it('should use the case mappings of the given locale', () => {
+    class TestClass {
+      @ToUpperCase('tr')
+      text: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = 'istanbul';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('\u0130STANBUL');
+  });
+
+  it('should convert value in array property with "each: true"', () => {
+    class TestClass {
+      @ToUpperCase(undefined, { each: true })
+      text: string[];
+    }
+
+    const instance = new TestClass();
+    instance.text = ['text'];
+
+    sanitize(instance);
+
+    expect(instance.text[0]).toBe('TEXT');
+  });
+});
@@ -0,0 +1,124 @@
+import { defaultMetadataStorage } from '../../default-storage.const';
+import { Truncate } from '..';
+import { sanitize } from '../..';
+
+describe('Truncate', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should shorten the input to the maximum length', () => {
+    class TestClass {
+      @Truncate(5)
+      propA: string;
+
+      @Truncate(5)
+      propB: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: 'Hello world', propB: 'Hi' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('Hello');
+    expect(instance.propB).toBe('Hi');
+  });
+
+  it('should not cut emoji and combined characters in half', () => {
+    class TestClass {
+      @Truncate(2)
+      propA: string;
+
+      @Truncate(2)
+      propB: string;
+
+      @Truncate(2, { unit: 'codepoint' })
+      propC: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}\u{1F44D}\u{1F3FD}!',
+      propB: 'e\u0301e\u0301e\u0301',
+      propC: 'e\u0301e\u0301e\u0301',
+    });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('\u{1F468}\u200D\u{1F469}\u200D\u{1F467}\u{1F44D}\u{1F3FD}');
+    expect(instance.propB).toBe('e\u0301e\u0301');
+    expect(instance.propC).toBe('e\u0301');
+  });
+
+  it('should limit the length in UTF-8 bytes with the byte unit', () => {
+    class TestClass {
+      @Truncate(5, { unit: 'byte' })
+      propA: string;
+
+      @Truncate(7, { unit: 'byte' })
+      propB: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: '\u00E9\u00E9\u00E9', propB: 'ab\u{1F600}\u{1F600}' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('\u00E9\u00E9');
+    expect(instance.propB).toBe('ab\u{1F600}');
+  });
+
+  it('should append the ellipsis within the maximum length', () => {
+    class TestClass {
+      @Truncate(8, { ellipsis: '…' })
+      propA: string;
+
+      @Truncate(2, { ellipsis: '...' })
+      propB: string;
+    }
+    const instance = Object.assign(new TestClass(), { propA: 'Hello world', propB: 'Hello' });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('Hello w…');
+    expect(instance.propB).toBe('He');
+  });
+
+  it('should cut at the end of the last whole word with wordBoundary', () => {
+    class TestClass {
+      @Truncate(12, { wordBoundary: true, ellipsis: '…' })
+      propA: string;
+
+      @Truncate(11, { wordBoundary: true })
+      propB: string;
+
+      @Truncate(4, { wordBoundary: true })
+      propC: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: 'Hello brave new world',
+      propB: 'Hello world again',
+      propC: 'Wonderful',
+    });
+
+    sanitize(instance);
+
+    expect(instance.propA).toBe('Hello brave…');
+    expect(instance.propB).toBe('Hello world');
+    expect(instance.propC).toBe('Wond');
+  });
+
+  it('should keep the graphemes together when Intl.Segmenter is not available', () => {
+    const segmenter = (Intl as any).Segmenter;
+    delete (Intl as any).Segmenter;
+
+    class TestClass {
+      @Truncate(3)
+      propA: string;
+    }
+    const instance = Object.assign(new TestClass(), {
+      propA: '\u{1F1ED}\u{1F1FA}e\u0301\u{1F468}\u200D\u{1F469}\u200D\u{1F467}\r\nx',
+    });
+
+    try {
+      sanitize(instance);
+    } finally {
+      (Intl as any).Segmenter = segmenter;
+    }
+
+    expect(instance.propA).toBe('\u{1F1ED}\u{1F1FA}e\u0301\u{1F468}\u200D\u{1F469}\u200D\u{1F467}');
+  });
+});
@@ -0,0 +1,31 @@
+import { getMetadataStorage } from '../../active-metadata-storage';
+import { TruncateOptions } from '../../interfaces';
+import { SanitizeTypes } from '../../enums';
+
+/**
+ * Shorten the input to the given maximum length, measured in graphemes by default. The ellipsis is appended to
+ * truncated values within the maximum length.
+ */
+export function Truncate(maxLength: number, annotationOptions: TruncateOptions = {}): PropertyDecorator {
+  return function (target: Object, propertyName: string | symbol) {
+    getMetadataStorage().addMetadata(
+      {
+        type: SanitizeTypes.TRUNCATE,
+        target: target as Function,
+        propertyName: propertyName,
+        value1: maxLength,
+        value2: {
+          unit: annotationOptions.unit,
+          ellipsis: annotationOptions.ellipsis,
+          wordBoundary: annotationOptions.wordBoundary,
+        },
+        each: annotationOptions.each,
+        keys: annotationOptions.keys,
+        groups: annotationOptions.groups,
+        always: annotationOptions.always,
+        order: annotationOptions.order,
+      },
+      'sanitation'
+    );
+  };
+}
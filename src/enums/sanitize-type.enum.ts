@@ -1,20 +1,39 @@
 /**
  * Sanitation types.
  */
-export const enum SanitizeTypes {
+export enum SanitizeTypes {
   BLACKLIST = 'BLACKLIST',
+  CAPITALIZE = 'CAPITALIZE',
+  CLAMP = 'CLAMP',
+  COLLAPSE_WHITESPACE = 'COLLAPSE_WHITESPACE',
+  DEFAULT = 'DEFAULT',
+  EMPTY_TO_NULL = 'EMPTY_TO_NULL',
   ESCAPE = 'ESCAPE',
   LTRIM = 'LTRIM',
   NORMALIZE_EMAIL = 'NORMALIZE_EMAIL',
+  NORMALIZE_NEWLINES = 'NORMALIZE_NEWLINES',
+  NORMALIZE_UNICODE = 'NORMALIZE_UNICODE',
+  NORMALIZE_URL = 'NORMALIZE_URL',
+  NULL_TO_UNDEFINED = 'NULL_TO_UNDEFINED',
+  ROUND = 'ROUND',
   RTRIM = 'RTRIM',
+  SANITIZE_HTML = 'SANITIZE_HTML',
+  SLUGIFY = 'SLUGIFY',
   STRIP_LOW = 'STRIP_LOW',
   TO_BOOLEAN = 'TO_BOOLEAN',
+  TO_CAMEL_CASE = 'TO_CAMEL_CASE',
   TO_DATE = 'TO_DATE',
   TO_FLOAT = 'TO_FLOAT',
   TO_INT = 'TO_INT',
+  TO_LOWER_CASE = 'TO_LOWER_CASE',
+  TO_NUMBER = 'TO_NUMBER',
+  TO_SNAKE_CASE = 'TO_SNAKE_CASE',
   TO_STRING = 'TO_STRING',
+  TO_UPPER_CASE = 'TO_UPPER_CASE',
   TRIM = 'TRIM',
+  TRUNCATE = 'TRUNCATE',
   WHITELIST = 'WHITELIST',
   CUSTOM_SANITIZATION = 'CUSTOM_SANITIZATION',
   NESTED = 'NESTED',
+  CONDITIONAL = 'CONDITIONAL',
 }
@@ -0,0 +1,2 @@
+export * from './sanitation.error';
+export * from './sanitation-aggregate.error';
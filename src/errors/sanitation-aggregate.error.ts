@@ -0,0 +1,19 @@
+import { SanitationError } from './sanitation.error';
+
+/**
+ * Error thrown at the end of the sanitation when errors are collected with the `collectErrors` option
+ * and at least one rule failed.
+ */
+export class SanitationAggregateError extends Error {
+  name = 'SanitationAggregateError';
+
+  /**
+   * @param errors every error collected during the sanitation in the order they occurred
+   */
+  constructor(public readonly errors: SanitationError[]) {
+    super(
+      `${errors.length} sanitation error(s) occurred:\n` +
+        errors.map(error => `- ${error.path || '<root>'}: ${error.message}`).join('\n')
+    );
+  }
+}
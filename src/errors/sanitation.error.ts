@@ -0,0 +1,26 @@
+import { SanitizeTypes } from '../enums';
+
+/**
+ * Error thrown when a rule can't be applied to a value. Errors thrown by custom sanitizers are wrapped into this
+ * error, the original error is available as `cause`.
+ */
+export class SanitationError extends Error {
+  name = 'SanitationError';
+
+  /**
+   * @param message the description of the error
+   * @param path the path of the value from the root object, eg: `addresses[0].city`
+   * @param type the type of the rule which failed
+   * @param value the value the rule failed on
+   * @param cause the original error thrown while applying the rule
+   */
+  constructor(
+    message: string,
+    public readonly path: string,
+    public readonly type: SanitizeTypes,
+    public readonly value: any,
+    public readonly cause?: any
+  ) {
+    super(message);
+  }
+}
@@ -0,0 +1,262 @@
+import { HtmlSanitizationOptions } from './interfaces';
+
+const DEFAULT_ALLOWED_TAGS = [
+  'a',
+  'b',
+  'blockquote',
+  'br',
+  'code',
+  'em',
+  'i',
+  'li',
+  'ol',
+  'p',
+  'pre',
+  'strong',
+  'u',
+  'ul',
+];
+const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = { a: ['href', 'title'] };
+const DEFAULT_ALLOWED_SCHEMES = ['http', 'https', 'mailto'];
+
+/** Tags which have no closing tag. */
+const VOID_TAGS = [
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+];
+
+/** Tags removed together with their content when they are not allowed. */
+const DISCARDED_CONTENT_TAGS = ['script', 'style', 'iframe', 'object', 'noscript', 'template', 'textarea', 'title'];
+
+/** Attributes containing URLs, their scheme is checked against the allowed schemes. */
+const URL_ATTRIBUTES = ['action', 'background', 'cite', 'formaction', 'href', 'poster', 'src', 'xlink:href'];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00A0',
+  colon: ':',
+  tab: '\t',
+  newline: '\n',
+};
+
+interface HtmlTag {
+  name: string;
+  attributes: [string, string | undefined][];
+  isClosing: boolean;
+  end: number;
+}
+
+/**
+ * Removes every tag and attribute from the given HTML which is not allowed by the options. URL attributes with
+ * disallowed schemes (eg: `javascript:`) are removed, comments are dropped and unclosed tags are closed.
+ * The input is processed by a simple tokenizer, so no browser DOM is required.
+ *
+ * @param html the HTML to sanitize
+ * @param options the allowed tags, attributes and URL schemes
+ */
+export function sanitizeHtml(html: string, options: HtmlSanitizationOptions = {}): string {
+  const allowedTags = (options.allowedTags || DEFAULT_ALLOWED_TAGS).map(tag => tag.toLowerCase());
+  const allowedAttributes = options.allowedAttributes || DEFAULT_ALLOWED_ATTRIBUTES;
+  const allowedSchemes = (options.allowedSchemes || DEFAULT_ALLOWED_SCHEMES).map(scheme => scheme.toLowerCase());
+  const openTags: string[] = [];
+  let output = '';
+  let position = 0;
+
+  while (position < html.length) {
+    const tagStart = html.indexOf('<', position);
+
+    if (tagStart === -1) {
+      output += escapeText(html.slice(position));
+      break;
+    }
+
+    output += escapeText(html.slice(position, tagStart));
+
+    if (html.startsWith('<!--', tagStart)) {
+      const commentEnd = html.indexOf('-->', tagStart + 4);
+      position = commentEnd === -1 ? html.length : commentEnd + 3;
+      continue;
+    }
+
+    if (html.startsWith('<!', tagStart) || html.startsWith('<?', tagStart)) {
+      const declarationEnd = html.indexOf('>', tagStart);
+      position = declarationEnd === -1 ? html.length : declarationEnd + 1;
+      continue;
+    }
+
+    const tag = parseTag(html, tagStart);
+
+    if (!tag) {
+      output += '&lt;';
+      position = tagStart + 1;
+      continue;
+    }
+
+    position = tag.end;
+
+    if (!allowedTags.includes(tag.name)) {
+      if (!tag.isClosing && DISCARDED_CONTENT_TAGS.includes(tag.name)) {
+        position = findClosingTagEnd(html, tag.name, position);
+      }
+      continue;
+    }
+
+    if (tag.isClosing) {
+      const index = openTags.lastIndexOf(tag.name);
+
+      if (index !== -1) {
+        output += openTags
+          .splice(index)
+          .reverse()
+          .map(name => `</${name}>`)
+          .join('');
+      }
+      continue;
+    }
+
+    const attributes = tag.attributes
+      .filter(([name, value]) => isAttributeAllowed(tag.name, name, value, allowedAttributes, allowedSchemes))
+      .map(([name, value]) => (value === undefined ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`))
+      .join('');
+
+    output += `<${tag.name}${attributes}>`;
+
+    if (!VOID_TAGS.includes(tag.name)) {
+      openTags.push(tag.name);
+    }
+  }
+
+  return (
+    output +
+    openTags
+      .reverse()
+      .map(name => `</${name}>`)
+      .join('')
+  );
+}
+
+/**
+ * Parses the tag starting at the given position. Returns undefined when the `<` character doesn't start a tag.
+ * Attribute values are returned with their character references decoded.
+ */
+function parseTag(html: string, start: number): HtmlTag | undefined {
+  const match = /^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)/.exec(html.slice(start, start + 256));
+
+  if (!match) {
+    return undefined;
+  }
+
+  const attributes: [string, string | undefined][] = [];
+  let position = start + match[0].length;
+
+  while (position < html.length) {
+    const char = html[position];
+
+    if (char === '>') {
+      return { name: match[2].toLowerCase(), attributes, isClosing: !!match[1], end: position + 1 };
+    }
+
+    if (/[\s/]/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const nameMatch = /^[^\s/>=]+/.exec(html.slice(position)) || [char];
+    const name = nameMatch[0].toLowerCase();
+    position += nameMatch[0].length;
+
+    const valueMatch = /^\s*=\s*(?:"([^"]*)"?|'([^']*)'?|([^\s>]*))/.exec(html.slice(position));
+
+    if (valueMatch) {
+      const rawValue =
+        valueMatch[1] !== undefined ? valueMatch[1] : valueMatch[2] !== undefined ? valueMatch[2] : valueMatch[3];
+      attributes.push([name, decodeEntities(rawValue)]);
+      position += valueMatch[0].length;
+    } else {
+      attributes.push([name, undefined]);
+    }
+  }
+
+  /** The tag is not closed, the rest of the input is dropped. */
+  return { name: match[2].toLowerCase(), attributes, isClosing: !!match[1], end: html.length };
+}
+
+/**
+ * Returns the position after the closing tag with the given name, or the end of the input when it's not closed.
+ */
+function findClosingTagEnd(html: string, name: string, position: number): number {
+  const closingTag = new RegExp(`</${name}[^>]*>`, 'i').exec(html.slice(position));
+
+  return closingTag ? position + closingTag.index + closingTag[0].length : html.length;
+}
+
+/**
+ * Checks if the attribute is allowed on the tag. URL attributes are allowed only with relative URLs or URLs with
+ * an allowed scheme.
+ */
+function isAttributeAllowed(
+  tagName: string,
+  name: string,
+  value: string | undefined,
+  allowedAttributes: Record<string, string[]>,
+  allowedSchemes: string[]
+): boolean {
+  const isAllowed = [...(allowedAttributes[tagName] || []), ...(allowedAttributes['*'] || [])]
+    .map(attribute => attribute.toLowerCase())
+    .includes(name);
+
+  if (!isAllowed || value === undefined || !URL_ATTRIBUTES.includes(name)) {
+    return isAllowed;
+  }
+
+  /** Browsers ignore whitespace and control characters in the scheme, eg: `java\tscript:`. */
+  // eslint-disable-next-line no-control-regex
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(value.replace(/[\u0000- \u007F-\u009F]/g, ''));
+
+  return !scheme || allowedSchemes.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Decodes the numeric and the most common named character references.
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);?/gi, (reference: string, code: string) => {
+    if (code[0] !== '#') {
+      const named = NAMED_ENTITIES[code.toLowerCase()];
+      return named !== undefined ? named : reference;
+    }
+
+    const codePoint = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '\uFFFD';
+  });
+}
+
+/**
+ * Escapes the characters of text content which would start or end a tag.
+ */
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Escapes the characters of an attribute value placed between double quotes.
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -1,16 +1,75 @@
 import { Sanitizer } from './sanitizer.class';
+import { SanitizerOptions, SanitationReport, SanitationSchema, SanitationMetadata } from './interfaces';
+import { defaultMetadataStorage } from './default-storage.const';
 
 export * from './decorators';
+export * from './enums';
+export * from './errors';
 export * from './interfaces';
 export * from './sanitizer.class';
+export * from './container';
+export * from './metadata-storage.class';
+export * from './default-storage.const';
+export * from './create-decorators';
 
 const sanitizer = new Sanitizer();
 export default sanitizer;
 
-export function sanitize(object: any): void {
-  return sanitizer.sanitize(object);
+export function sanitize(object: any, options?: SanitizerOptions): void;
+export function sanitize<T>(schemaName: string, object: T, options?: SanitizerOptions): T;
+export function sanitize(objectOrSchemaName: any, objectOrOptions?: any, options?: SanitizerOptions): any {
+  return sanitizer.sanitize(objectOrSchemaName, objectOrOptions, options);
 }
 
-export function sanitizeAsync<T>(object: T): Promise<T> {
-  return sanitizer.sanitizeAsync(object);
+export function sanitizeAsync<T>(object: T, options?: SanitizerOptions): Promise<T>;
+export function sanitizeAsync<T>(schemaName: string, object: T, options?: SanitizerOptions): Promise<T>;
+export function sanitizeAsync(
+  objectOrSchemaName: any,
+  objectOrOptions?: any,
+  options?: SanitizerOptions
+): Promise<any> {
+  return sanitizer.sanitizeAsync(objectOrSchemaName, objectOrOptions, options);
+}
+
+export function registerSchema(schema: SanitationSchema): void {
+  defaultMetadataStorage.registerSchema(schema);
+}
+
+export function sanitizeCopy<T>(object: T, options?: SanitizerOptions): T {
+  return sanitizer.sanitizeCopy(object, options);
+}
+
+export function sanitizeCopyAsync<T>(object: T, options?: SanitizerOptions): Promise<T> {
+  return sanitizer.sanitizeCopyAsync(object, options);
+}
+
+export function sanitizePlain<T>(
+  type: new (...args: any[]) => T,
+  plain: Record<string, any>,
+  options?: SanitizerOptions
+): T {
+  return sanitizer.sanitizePlain(type, plain, options);
+}
+
+export function sanitizePlainAsync<T>(
+  type: new (...args: any[]) => T,
+  plain: Record<string, any>,
+  options?: SanitizerOptions
+): Promise<T> {
+  return sanitizer.sanitizePlainAsync(type, plain, options);
+}
+
+export function sanitizeWithReport<T>(object: T, options?: SanitizerOptions): SanitationReport<T> {
+  return sanitizer.sanitizeWithReport(object, options);
+}
+
+export function sanitizeWithReportAsync<T>(object: T, options?: SanitizerOptions): Promise<SanitationReport<T>> {
+  return sanitizer.sanitizeWithReportAsync(object, options);
+}
+
+export function getSanitationPipeline(
+  target: Function | string,
+  options?: SanitizerOptions
+): Map<string | symbol, SanitationMetadata[]> {
+  return sanitizer.getPipeline(target, options);
 }
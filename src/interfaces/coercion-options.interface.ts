@@ -0,0 +1,27 @@
+import { SanitationOptions } from './sanitation-options.interface';
+
+/**
+ * What to do when a value can't be converted by a coercing rule:
+ * - `keep` leaves the original value untouched
+ * - `undefined` and `null` set the value to `undefined` or `null`
+ * - `fallback` sets the value to the given `fallback` value
+ * - `throw` throws a `SanitationError`
+ */
+export type InvalidValuePolicy = 'keep' | 'undefined' | 'null' | 'fallback' | 'throw';
+
+/**
+ * Options used to pass to coercing decorators, eg: `@ToInt()`, `@ToFloat()`, `@ToNumber()`, `@ToDate()` and
+ * `@NormalizeEmail()`.
+ */
+export interface CoercionOptions extends SanitationOptions {
+  /**
+   * What to do when the value can't be converted. When omitted the policy given to the sanitizer is used, or the
+   * result of the conversion (eg: `NaN`) is written back when none is given.
+   */
+  onInvalid?: InvalidValuePolicy;
+
+  /**
+   * Value used when the value can't be converted and the `fallback` policy is used.
+   */
+  fallback?: any;
+}
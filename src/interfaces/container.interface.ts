@@ -0,0 +1,9 @@
+/**
+ * IoC container used to resolve the instances of custom sanitizers.
+ */
+export interface Container {
+  /**
+   * Returns the instance of the given class.
+   */
+  get<T>(someClass: new (...args: any[]) => T): T;
+}
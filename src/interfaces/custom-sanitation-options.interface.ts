@@ -0,0 +1,11 @@
+import { SanitationOptions } from './sanitation-options.interface';
+
+/**
+ * Options used to pass to the `@Sanitize` decorator.
+ */
+export interface CustomSanitationOptions extends SanitationOptions {
+  /**
+   * Arguments passed to the custom sanitizer, eg: the maximum length for a truncating sanitizer.
+   */
+  constraints?: any[];
+}
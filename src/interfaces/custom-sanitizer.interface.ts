@@ -1,9 +1,13 @@
+import { SanitationArguments } from './sanitation-arguments.interface';
+
 /**
  * Custom sanitizers must implement this interface to provide custom sanitation logic.
  */
 export interface CustomSanitizer {
   /**
    * Method to be called to perform given value sanitation.
+   * It may return a Promise, in that case the object must be sanitized with `sanitizeAsync`.
+   * The arguments contain the constraints of the decorator and the location of the value.
    */
-  sanitize(value: any): any;
+  sanitize(value: any, args?: SanitationArguments): any | Promise<any>;
 }
@@ -0,0 +1,33 @@
+/**
+ * Options of the date conversion.
+ */
+export interface DateParsingOptions {
+  /**
+   * Formats accepted for string input, eg: `DD/MM/YYYY` or `YYYY-MM-DD HH:mm`. Supported tokens are `YYYY`, `YY`,
+   * `MM`, `M`, `DD`, `D`, `HH`, `H`, `mm`, `ss`, `SSS` and `Z` (UTC offset), every other character must match as it
+   * is. When omitted strings are parsed by `Date.parse`.
+   */
+  formats?: string[];
+
+  /**
+   * Whether numbers and numeric strings are Unix timestamps in seconds or in milliseconds. When omitted numbers are
+   * converted to strings and parsed like every other string.
+   */
+  unixTimestamp?: 'seconds' | 'milliseconds';
+
+  /**
+   * Timezone of input without an UTC offset, eg: `UTC`, `+02:00` or `Europe/Budapest`. Applies to input matching
+   * one of the formats and to ISO 8601 dates and date-times without offset.
+   */
+  timezone?: string;
+
+  /**
+   * Sets the time to midnight in the timezone given in the `timezone` option, or in UTC.
+   */
+  truncateToDay?: boolean;
+
+  /**
+   * Whether a `Date` (default) or an ISO 8601 string is returned.
+   */
+  output?: 'date' | 'iso';
+}
@@ -0,0 +1,22 @@
+/**
+ * Options of the HTML sanitation.
+ */
+export interface HtmlSanitizationOptions {
+  /**
+   * Tags kept in the output, every other tag is removed but its text content is kept. The content of `script`,
+   * `style` and similar tags is removed as well. Defaults to basic formatting tags, lists, paragraphs and links.
+   */
+  allowedTags?: string[];
+
+  /**
+   * Attributes kept on the allowed tags by the name of the tag, the attributes listed for `*` are allowed on every
+   * tag. Defaults to `href` and `title` on links.
+   */
+  allowedAttributes?: Record<string, string[]>;
+
+  /**
+   * URL schemes allowed in URL attributes (eg: `href` and `src`), attributes with other schemes are removed.
+   * Relative URLs are always allowed. Defaults to `http`, `https` and `mailto`.
+   */
+  allowedSchemes?: string[];
+}
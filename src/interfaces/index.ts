@@ -1,4 +1,35 @@
 export * from './metadata/constraint-metadata.interface';
 export * from './metadata/sanitation-metadata.interface';
+export * from './metadata/override-metadata.interface';
+export * from './metadata/mixin-metadata.interface';
 export * from './sanitation-options.interface';
+export * from './custom-sanitation-options.interface';
+export * from './sanitizer-constraint-options.interface';
+export * from './coercion-options.interface';
+export * from './unicode-normalization-options.interface';
+export * from './normalize-unicode-options.interface';
+export * from './html-sanitization-options.interface';
+export * from './sanitize-html-options.interface';
+export * from './slug-options.interface';
+export * from './slugify-options.interface';
+export * from './newline-normalization-options.interface';
+export * from './normalize-newlines-options.interface';
+export * from './rounding-options.interface';
+export * from './round-options.interface';
+export * from './number-parsing-options.interface';
+export * from './to-number-options.interface';
+export * from './date-parsing-options.interface';
+export * from './to-date-options.interface';
+export * from './url-normalization-options.interface';
+export * from './normalize-url-options.interface';
+export * from './truncation-options.interface';
+export * from './truncate-options.interface';
 export * from './custom-sanitizer.interface';
+export * from './sanitation-arguments.interface';
+export * from './sanitizer-options.interface';
+export * from './sanitation-change.interface';
+export * from './sanitation-report.interface';
+export * from './sanitation-schema.interface';
+export * from './sanitation-schema-rule.interface';
+export * from './container.interface';
+export * from './use-container-options.interface';
@@ -1,5 +1,3 @@
-import { CustomSanitizer } from '../custom-sanitizer.interface';
-
 /**
  * This metadata interface contains information for custom sanitizers.
  */
@@ -10,7 +8,7 @@ export interface ConstraintMetadata {
   target: new (...args: any[]) => any;
 
   /**
-   * Instance of the object which performs sanitation.
+   * Name the custom sanitizer was registered with.
    */
-  instance?: CustomSanitizer;
+  name?: string;
 }
@@ -0,0 +1,14 @@
+/**
+ * This metadata interface contains information about classes composed from mixins.
+ */
+export interface MixinMetadata {
+  /**
+   * Class which receives the rules of the mixins.
+   */
+  target: Function;
+
+  /**
+   * Classes whose rules are inherited by the target class.
+   */
+  mixins: Function[];
+}
@@ -0,0 +1,14 @@
+/**
+ * This metadata interface contains information about properties which don't inherit the rules of the parent classes.
+ */
+export interface OverrideMetadata {
+  /**
+   * Object that declares the property.
+   */
+  target: Function;
+
+  /**
+   * Property of the object which overrides the inherited rules.
+   */
+  propertyName: string | symbol;
+}
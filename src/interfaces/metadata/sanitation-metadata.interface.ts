@@ -1,4 +1,5 @@
 import { SanitizeTypes } from '../../enums';
+import { InvalidValuePolicy } from '../coercion-options.interface';
 
 /**
  * This metadata interface contains information for sanitation.
@@ -10,9 +11,9 @@ export interface SanitationMetadata {
   type: SanitizeTypes;
 
   /**
-   * Object that is used to be sanitized.
+   * Object that is used to be sanitized, or the name of the schema for schema based rules.
    */
-  target: Function;
+  target: Function | string;
 
   /**
    * Property of the object to be sanitized.
@@ -30,7 +31,37 @@ export interface SanitationMetadata {
   value2?: any;
 
   /**
-   * Specifies if sanitized value is an array and each of its item must be sanitized.
+   * Specifies if sanitized value is an array, Set, Map or plain object dictionary and each of its item must be sanitized.
    */
   each?: boolean;
+
+  /**
+   * Specifies if the keys of Map and plain object dictionary values must be sanitized as well.
+   */
+  keys?: boolean;
+
+  /**
+   * Sanitation groups used for this rule.
+   */
+  groups?: string[];
+
+  /**
+   * Indicates if the rule must be applied always, no matter of the sanitation groups used.
+   */
+  always?: boolean;
+
+  /**
+   * Position of the rule in the pipeline of the property, rules with a lower order are applied first.
+   */
+  order?: number;
+
+  /**
+   * What to do when the value can't be converted by a coercing rule.
+   */
+  onInvalid?: InvalidValuePolicy;
+
+  /**
+   * Value used when the value can't be converted and the `fallback` policy is used.
+   */
+  fallback?: any;
 }
@@ -0,0 +1,15 @@
+/**
+ * Options of the line ending normalization.
+ */
+export interface NewlineNormalizationOptions {
+  /**
+   * Line ending every line break is converted to. Defaults to `\n`.
+   */
+  to?: '\n' | '\r\n' | '\r';
+
+  /**
+   * Maximum number of consecutive line breaks, longer runs are shortened to this length. It must be at least 1, use
+   * `@CollapseWhitespace()` to join the lines. Unlimited by default.
+   */
+  maxConsecutive?: number;
+}
@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { NewlineNormalizationOptions } from './newline-normalization-options.interface';
+
+/**
+ * Options used to pass to the `@NormalizeNewlines` decorator.
+ */
+export interface NormalizeNewlinesOptions extends SanitationOptions, NewlineNormalizationOptions {}
@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { UnicodeNormalizationOptions } from './unicode-normalization-options.interface';
+
+/**
+ * Options used to pass to the `@NormalizeUnicode` decorator.
+ */
+export interface NormalizeUnicodeOptions extends SanitationOptions, UnicodeNormalizationOptions {}
@@ -0,0 +1,7 @@
+import { CoercionOptions } from './coercion-options.interface';
+import { UrlNormalizationOptions } from './url-normalization-options.interface';
+
+/**
+ * Options used to pass to the `@NormalizeUrl` decorator.
+ */
+export interface NormalizeUrlOptions extends CoercionOptions, UrlNormalizationOptions {}
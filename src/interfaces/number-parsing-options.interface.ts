@@ -0,0 +1,15 @@
+/**
+ * Options of the locale-aware number parsing.
+ */
+export interface NumberParsingOptions {
+  /**
+   * Locale defining the decimal and grouping separators, eg: `de` for `1.234,56`. Defaults to `en`. An error is
+   * thrown when the runtime has no data for the locale, eg: Node.js built without full ICU.
+   */
+  locale?: string;
+
+  /**
+   * Whether currency symbols (eg: `$`, `€`) and ISO currency codes (eg: `EUR`) are allowed around the number.
+   */
+  allowCurrency?: boolean;
+}
@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { RoundingOptions } from './rounding-options.interface';
+
+/**
+ * Options used to pass to the `@Round` decorator.
+ */
+export interface RoundOptions extends SanitationOptions, RoundingOptions {}
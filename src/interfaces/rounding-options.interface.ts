@@ -0,0 +1,18 @@
+/**
+ * Options of the rounding of numbers.
+ */
+export interface RoundingOptions {
+  /**
+   * Number of decimal places kept. Defaults to `0`.
+   */
+  decimals?: number;
+
+  /**
+   * Rounding mode, defaults to `half-up`:
+   * - `half-up` rounds halves away from zero
+   * - `half-even` rounds halves to the nearest even digit (banker's rounding)
+   * - `ceil` and `floor` round towards positive and negative infinity
+   * - `trunc` rounds towards zero
+   */
+  mode?: 'half-up' | 'half-even' | 'ceil' | 'floor' | 'trunc';
+}
@@ -0,0 +1,29 @@
+/**
+ * Arguments passed to custom sanitizers describing the value being sanitized.
+ */
+export interface SanitationArguments {
+  /**
+   * Constraints given in the options of the `@Sanitize` decorator.
+   */
+  constraints: any[];
+
+  /**
+   * Object owning the sanitized property.
+   */
+  object: any;
+
+  /**
+   * Name of the sanitized property.
+   */
+  property: string | symbol;
+
+  /**
+   * Path of the sanitized value from the root object, eg: `children[0].text`.
+   */
+  path: string;
+
+  /**
+   * Groups used for the current sanitation.
+   */
+  groups?: string[];
+}
@@ -0,0 +1,36 @@
+import { SanitizeTypes } from '../enums';
+
+/**
+ * Describes a single value altered during sanitation.
+ */
+export interface SanitationChange {
+  /**
+   * Path of the altered value from the root object, eg: `children[0].text`.
+   */
+  path: string;
+
+  /**
+   * Set when the key of a Map or dictionary entry was altered instead of its value.
+   */
+  key?: boolean;
+
+  /**
+   * Type of the rule which altered the value.
+   */
+  type: SanitizeTypes;
+
+  /**
+   * Custom sanitizer class which altered the value when the type is `CUSTOM_SANITIZATION`.
+   */
+  sanitizer?: Function;
+
+  /**
+   * Value before the rule was applied.
+   */
+  before: any;
+
+  /**
+   * Value after the rule was applied.
+   */
+  after: any;
+}
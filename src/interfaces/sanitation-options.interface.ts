@@ -3,7 +3,29 @@
  */
 export interface SanitationOptions {
   /**
-   * Specifies if sanity value is an array and each of its item must be sanitized.
+   * Specifies if sanity value is an array, Set, Map or plain object dictionary and each of its item must be sanitized.
    */
   each?: boolean;
+
+  /**
+   * Specifies if the keys of Map and plain object dictionary values must be sanitized as well when `each` is set.
+   */
+  keys?: boolean;
+
+  /**
+   * Sanitation groups used for this rule. When groups are passed to the sanitizer only the rules
+   * belonging to at least one of those groups are applied.
+   */
+  groups?: string[];
+
+  /**
+   * Indicates if the rule must be applied always, no matter of the sanitation groups used.
+   */
+  always?: boolean;
+
+  /**
+   * Position of the rule in the pipeline of the property. Rules with a lower order are applied first, rules with the
+   * same order keep their default position. Defaults to `0`.
+   */
+  order?: number;
 }
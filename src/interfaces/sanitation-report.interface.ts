@@ -0,0 +1,16 @@
+import { SanitationChange } from './sanitation-change.interface';
+
+/**
+ * Result of a sanitation which tracks the altered values.
+ */
+export interface SanitationReport<T> {
+  /**
+   * The sanitized object.
+   */
+  object: T;
+
+  /**
+   * Every value altered during the sanitation in the order the rules were applied.
+   */
+  changes: SanitationChange[];
+}
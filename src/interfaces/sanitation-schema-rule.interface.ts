@@ -0,0 +1,25 @@
+import { SanitizeTypes } from '../enums';
+import { CustomSanitationOptions } from './custom-sanitation-options.interface';
+import { CoercionOptions } from './coercion-options.interface';
+
+/**
+ * Single rule of a sanitation schema, the equivalent of a decorator placed on a property.
+ */
+export interface SanitationSchemaRule extends CustomSanitationOptions, CoercionOptions {
+  /**
+   * Sanitation type, eg: `TRIM`.
+   */
+  type: SanitizeTypes | keyof typeof SanitizeTypes;
+
+  /**
+   * Arguments of the equivalent decorator in the same order, eg: `[' ']` for `@Trim(' ')`. For custom sanitizers
+   * the first argument is the sanitizer class or the name given to its `@SanitizerConstraint` decorator.
+   */
+  args?: any[];
+
+  /**
+   * Name of the schema used to sanitize the nested object when the type is `NESTED`. When omitted the nested object
+   * is sanitized based on the decorators of its class.
+   */
+  schema?: string;
+}
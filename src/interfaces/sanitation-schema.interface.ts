@@ -0,0 +1,16 @@
+import { SanitationSchemaRule } from './sanitation-schema-rule.interface';
+
+/**
+ * Decorator-free description of the sanitation rules of an object. It can be expressed as JSON.
+ */
+export interface SanitationSchema {
+  /**
+   * Name of the schema used to reference it when sanitizing.
+   */
+  name: string;
+
+  /**
+   * Rules applied to the properties, in the same order as they are listed.
+   */
+  properties: { [propertyName: string]: SanitationSchemaRule[] };
+}
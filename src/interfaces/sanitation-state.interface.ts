@@ -0,0 +1,44 @@
+import { SanitizerOptions } from './sanitizer-options.interface';
+import { SanitationChange } from './sanitation-change.interface';
+import { SanitationError } from '../errors';
+
+/**
+ * Internal state shared by every step of a single sanitation run.
+ */
+export interface SanitationState {
+  /**
+   * Options received by the sanitizer.
+   */
+  options: SanitizerOptions;
+
+  /**
+   * Whether custom sanitizers are allowed to return a Promise.
+   */
+  isAsync: boolean;
+
+  /**
+   * Objects already sanitized in this run mapped to the result of their sanitation by the class they were converted
+   * into, or by undefined when they were not converted.
+   */
+  visited: Map<object, Map<Function | undefined, any>>;
+
+  /**
+   * Whether objects and arrays are copied before writing the sanitized values into them.
+   */
+  copy?: boolean;
+
+  /**
+   * Whether nested plain objects are turned into instances of the class given in their `@SanitizeNested` decorator.
+   */
+  plainToClass?: boolean;
+
+  /**
+   * Collected changes, only set when a report was requested.
+   */
+  changes?: SanitationChange[];
+
+  /**
+   * Collected errors, only set when the `collectErrors` option is used.
+   */
+  errors?: SanitationError[];
+}
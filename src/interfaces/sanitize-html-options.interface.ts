@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { HtmlSanitizationOptions } from './html-sanitization-options.interface';
+
+/**
+ * Options used to pass to the `@SanitizeHtml` decorator.
+ */
+export interface SanitizeHtmlOptions extends SanitationOptions, HtmlSanitizationOptions {}
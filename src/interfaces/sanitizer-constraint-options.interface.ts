@@ -0,0 +1,9 @@
+/**
+ * Options used to pass to the `@SanitizerConstraint` decorator.
+ */
+export interface SanitizerConstraintOptions {
+  /**
+   * Name the custom sanitizer can be referenced by in sanitation schemas. It must be unique within a storage.
+   */
+  name?: string;
+}
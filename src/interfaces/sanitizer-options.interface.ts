@@ -0,0 +1,61 @@
+import { Container } from './container.interface';
+import { InvalidValuePolicy } from './coercion-options.interface';
+
+/**
+ * Options passed to the sanitizer when sanitizing an object.
+ */
+export interface SanitizerOptions {
+  /**
+   * Groups to be used during sanitation. When set, only rules belonging to at least one of the given groups
+   * (or rules marked with `always`) are applied. When omitted every rule is applied.
+   */
+  groups?: string[];
+
+  /**
+   * Sets the default for the `always` option of the decorators. Rules without groups are applied even
+   * when groups are given if this is set to true. Can be overridden per decorator.
+   */
+  always?: boolean;
+
+  /**
+   * Maximum number of nested objects sanitized below the root object. Unlimited by default.
+   */
+  maxDepth?: number;
+
+  /**
+   * What to do when an object deeper than `maxDepth` is found. With `throw` (default) an error is thrown,
+   * with `skip` the object is left as it is.
+   */
+  onMaxDepthExceeded?: 'throw' | 'skip';
+
+  /**
+   * When set, a failing rule doesn't stop the sanitation. The value is left as it was before the failing rule and
+   * every error is collected, then thrown together in a `SanitationAggregateError` once the whole object tree
+   * was sanitized.
+   */
+  collectErrors?: boolean;
+
+  /**
+   * Whether custom sanitizers are applied to `null` and `undefined` values as well. By default only the rules
+   * handling missing values (eg: `@Default()`) are applied to them. The other built-in rules always skip them, as they
+   * expect a value of a given type.
+   */
+  sanitizeNullish?: boolean;
+
+  /**
+   * What to do when a value can't be converted by a coercing rule (`@ToInt()`, `@ToFloat()`, `@ToNumber()`,
+   * `@ToDate()` and `@NormalizeEmail()`). The policy given to the decorator takes precedence.
+   */
+  onInvalid?: InvalidValuePolicy;
+
+  /**
+   * Value used when the value can't be converted and the `fallback` policy is used.
+   */
+  fallback?: any;
+
+  /**
+   * Container used to resolve the instances of custom sanitizers during this sanitation, eg: a request-scoped
+   * container. Defaults to the container set with `useContainer`.
+   */
+  container?: Container;
+}
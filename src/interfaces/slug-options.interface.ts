@@ -0,0 +1,20 @@
+/**
+ * Options of the slug generation.
+ */
+export interface SlugOptions {
+  /**
+   * Character placed between the words. Defaults to `-`.
+   */
+  separator?: string;
+
+  /**
+   * Locale used for the transliteration and the case conversion, eg: with `de` umlauts are transliterated
+   * to `ae`, `oe` and `ue`.
+   */
+  locale?: string;
+
+  /**
+   * Whether the slug is converted to lower case. Defaults to true.
+   */
+  lowercase?: boolean;
+}
@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { SlugOptions } from './slug-options.interface';
+
+/**
+ * Options used to pass to the `@Slugify` decorator.
+ */
+export interface SlugifyOptions extends SanitationOptions, SlugOptions {}
@@ -0,0 +1,7 @@
+import { CoercionOptions } from './coercion-options.interface';
+import { DateParsingOptions } from './date-parsing-options.interface';
+
+/**
+ * Options used to pass to the `@ToDate` decorator.
+ */
+export interface ToDateOptions extends CoercionOptions, DateParsingOptions {}
@@ -0,0 +1,7 @@
+import { CoercionOptions } from './coercion-options.interface';
+import { NumberParsingOptions } from './number-parsing-options.interface';
+
+/**
+ * Options used to pass to the `@ToNumber` decorator.
+ */
+export interface ToNumberOptions extends CoercionOptions, NumberParsingOptions {}
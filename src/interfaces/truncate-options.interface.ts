@@ -0,0 +1,7 @@
+import { SanitationOptions } from './sanitation-options.interface';
+import { TruncationOptions } from './truncation-options.interface';
+
+/**
+ * Options used to pass to the `@Truncate` decorator.
+ */
+export interface TruncateOptions extends SanitationOptions, TruncationOptions {}
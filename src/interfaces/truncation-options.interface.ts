@@ -0,0 +1,22 @@
+/**
+ * Options of the truncation.
+ */
+export interface TruncationOptions {
+  /**
+   * Unit of the maximum length: user-perceived characters (`grapheme`, default), Unicode code points (`codepoint`)
+   * or UTF-8 bytes (`byte`). Graphemes are never cut in half with the `grapheme` and `byte` units.
+   */
+  unit?: 'grapheme' | 'codepoint' | 'byte';
+
+  /**
+   * Text appended to truncated values, eg: `…`. It's counted in the maximum length, and left out when it's longer
+   * than the maximum length itself. Defaults to an empty string.
+   */
+  ellipsis?: string;
+
+  /**
+   * Whether the text is cut at the end of the last whole word instead of in the middle of a word. Words longer
+   * than the maximum length are still cut. Defaults to false.
+   */
+  wordBoundary?: boolean;
+}
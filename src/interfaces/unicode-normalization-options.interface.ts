@@ -0,0 +1,21 @@
+/**
+ * Options of the Unicode normalization.
+ */
+export interface UnicodeNormalizationOptions {
+  /**
+   * Removes zero-width characters, eg: zero-width space and joiners, word joiner, byte order mark and soft hyphen.
+   */
+  stripZeroWidth?: boolean;
+
+  /**
+   * Removes bidirectional control characters, eg: left-to-right and right-to-left marks, embeddings,
+   * overrides and isolates.
+   */
+  stripBidi?: boolean;
+
+  /**
+   * Folds compatibility characters (eg: non-breaking spaces, full-width letters and ligatures) into their canonical
+   * equivalents by using the compatibility variant of the normalization form (NFKC or NFKD).
+   */
+  foldCompatibility?: boolean;
+}
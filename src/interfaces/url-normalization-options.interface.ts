@@ -0,0 +1,20 @@
+/**
+ * Options of the URL normalization.
+ */
+export interface UrlNormalizationOptions {
+  /**
+   * Schemes of the accepted URLs, URLs with other schemes (eg: `javascript:`) are invalid. Defaults to `http` and
+   * `https`.
+   */
+  allowedSchemes?: string[];
+
+  /**
+   * Whether the `utm_*` tracking parameters are removed from the query. Defaults to true.
+   */
+  stripTrackingParams?: boolean;
+
+  /**
+   * Whether the query parameters are sorted by their name. Defaults to true.
+   */
+  sortQuery?: boolean;
+}
@@ -0,0 +1,14 @@
+/**
+ * Options passed to `useContainer`.
+ */
+export interface UseContainerOptions {
+  /**
+   * If set to true, the default container is used when the user container doesn't return an instance.
+   */
+  fallback?: boolean;
+
+  /**
+   * If set to true, the default container is used when the user container throws an error.
+   */
+  fallbackOnErrors?: boolean;
+}
@@ -1,11 +1,21 @@
-import { SanitationMetadata, ConstraintMetadata } from './interfaces';
+import {
+  SanitationMetadata,
+  ConstraintMetadata,
+  OverrideMetadata,
+  MixinMetadata,
+  SanitationSchema,
+} from './interfaces';
+import { SanitizeTypes } from './enums';
 
 /**
  * Storage all metadatas of this library.
  */
 export class MetadataStorage {
-  private sanitationMetadataStore: Map<Function, SanitationMetadata[]> = new Map();
+  private sanitationMetadataStore: Map<Function | string, SanitationMetadata[]> = new Map();
   private constraintMetadatasStore: Map<Function, ConstraintMetadata[]> = new Map();
+  private constraintNameStore: Map<string, Function> = new Map();
+  private overrideMetadataStore: Map<Object, Set<string | symbol>> = new Map();
+  private mixinMetadataStore: Map<Object, Function[]> = new Map();
 
   /**
    * Inserts the metadata to the correct place in our internal store. If there
@@ -15,51 +25,160 @@ export class MetadataStorage {
    */
   public addMetadata(metadata: SanitationMetadata, type: 'sanitation'): void;
   public addMetadata(metadata: ConstraintMetadata, type: 'constraint'): void;
-  public addMetadata(metadata: SanitationMetadata | ConstraintMetadata, type: 'sanitation' | 'constraint'): void {
-    if (!this.sanitationMetadataStore.has(metadata.target)) {
-      this.sanitationMetadataStore.set(metadata.target, []);
-    }
-
-    if (!this.constraintMetadatasStore.has(metadata.target)) {
-      this.constraintMetadatasStore.set(metadata.target, []);
-    }
-
+  public addMetadata(metadata: OverrideMetadata, type: 'override'): void;
+  public addMetadata(metadata: MixinMetadata, type: 'mixin'): void;
+  public addMetadata(
+    metadata: SanitationMetadata | ConstraintMetadata | OverrideMetadata | MixinMetadata,
+    type: 'sanitation' | 'constraint' | 'override' | 'mixin'
+  ): void {
     switch (type) {
       case 'sanitation':
+        if (!this.sanitationMetadataStore.has(metadata.target)) {
+          this.sanitationMetadataStore.set(metadata.target, []);
+        }
         // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
         this.sanitationMetadataStore.get(metadata.target)!.push(metadata as SanitationMetadata);
         break;
       case 'constraint':
+        this.registerConstraintName(metadata as ConstraintMetadata);
+
+        if (!this.constraintMetadatasStore.has(metadata.target as Function)) {
+          this.constraintMetadatasStore.set(metadata.target as Function, []);
+        }
         // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-        this.constraintMetadatasStore.get(metadata.target)!.push(metadata as ConstraintMetadata);
-        try {
-          (metadata as ConstraintMetadata).instance = new (metadata as ConstraintMetadata).target();
-        } catch {
-          throw Error(
-            'Error while registering decorator metadata, cannot create CustomSanitizer instance from received class definition.'
-          );
+        this.constraintMetadatasStore.get(metadata.target as Function)!.push(metadata as ConstraintMetadata);
+        break;
+      case 'override':
+        if (!this.overrideMetadataStore.has(metadata.target)) {
+          this.overrideMetadataStore.set(metadata.target, new Set());
         }
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        this.overrideMetadataStore.get(metadata.target)!.add((metadata as OverrideMetadata).propertyName);
         break;
+      case 'mixin': {
+        const { target, mixins } = metadata as MixinMetadata;
+
+        if (!this.mixinMetadataStore.has(target.prototype)) {
+          this.mixinMetadataStore.set(target.prototype, []);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        this.mixinMetadataStore.get(target.prototype)!.push(...mixins);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Registers a decorator-free sanitation schema. A previously registered schema with the same name is replaced.
+   *
+   * @param schema the schema to register
+   */
+  public registerSchema(schema: SanitationSchema): void {
+    const validTypes: string[] = Object.values(SanitizeTypes);
+    const metadatas: SanitationMetadata[] = [];
+
+    Object.keys(schema.properties).forEach(propertyName =>
+      schema.properties[propertyName].forEach(rule => {
+        if (!validTypes.includes(rule.type)) {
+          throw new Error(`Unknown sanitation type '${rule.type}' in schema '${schema.name}'.`);
+        }
+
+        const args = rule.args || [];
+
+        metadatas.push({
+          type: rule.type as SanitizeTypes,
+          target: schema.name,
+          propertyName: propertyName,
+          value1: rule.type === SanitizeTypes.NESTED ? rule.schema : args[0],
+          value2: rule.type === SanitizeTypes.CUSTOM_SANITIZATION ? rule.constraints : args[1],
+          each: rule.each,
+          keys: rule.keys,
+          groups: rule.groups,
+          always: rule.always,
+          order: rule.order,
+          onInvalid: rule.onInvalid,
+          fallback: rule.fallback,
+        });
+      })
+    );
+
+    this.sanitationMetadataStore.set(schema.name, metadatas);
+  }
+
+  /**
+   * Gets all sanitation metadatas of the schema registered with the given name with the given groups.
+   *
+   * @param schemaName the name of the schema
+   * @param groups the sanitation groups to filter the metadatas by, every metadata is returned when empty
+   * @param always the default value of the `always` flag for metadatas without groups
+   */
+  getSanitizeMetadatasForSchema(schemaName: string, groups?: string[], always?: boolean): SanitationMetadata[] {
+    const metadatas = this.sanitationMetadataStore.get(schemaName);
+
+    if (!metadatas) {
+      throw new Error(`No sanitation schema registered with name '${schemaName}'.`);
     }
+
+    return this.sortByOrder(metadatas.filter(metadata => this.isMetadataInGroups(metadata, groups, always)));
   }
 
   /**
    * Gets all sanitation metadatas for the given targetConstructor with the given groups.
    *
-   * @param instanceConstructor the constructor of the initiated class
+   * @param classInstance the initiated class instance
+   * @param groups the sanitation groups to filter the metadatas by, every metadata is returned when empty
+   * @param always the default value of the `always` flag for metadatas without groups
    */
-  getSanitizeMetadatasForClassInstance(classInstance: Object): SanitationMetadata[] {
-    const targetSanitationMetadata = this.sanitationMetadataStore.get((classInstance as any)['__proto__']) || [];
-    const parentSanitationMetadata =
-      this.sanitationMetadataStore.get((classInstance as any)['__proto__']['__proto__']) || [];
+  getSanitizeMetadatasForClassInstance(
+    classInstance: Object,
+    groups?: string[],
+    always?: boolean
+  ): SanitationMetadata[] {
+    return this.getSanitizeMetadatasForPrototype(Object.getPrototypeOf(classInstance), groups, always);
+  }
 
-    return [...targetSanitationMetadata, ...parentSanitationMetadata];
+  /**
+   * Gets the final list of rules applied to every property of the given class or schema in the order of application.
+   * The `@SanitizeIf` conditions are not part of the pipeline, they are evaluated before the first rule.
+   *
+   * @param target the class or the name of the schema
+   * @param groups the sanitation groups to filter the metadatas by, every metadata is returned when empty
+   * @param always the default value of the `always` flag for metadatas without groups
+   */
+  getSanitationPipeline(
+    target: Function | string,
+    groups?: string[],
+    always?: boolean
+  ): Map<string | symbol, SanitationMetadata[]> {
+    const metadatas =
+      typeof target === 'string'
+        ? this.getSanitizeMetadatasForSchema(target, groups, always)
+        : this.getSanitizeMetadatasForPrototype(target.prototype, groups, always);
+    const pipeline = new Map<string | symbol, SanitationMetadata[]>();
+
+    metadatas
+      .filter(metadata => metadata.type !== SanitizeTypes.CONDITIONAL)
+      .forEach(metadata => {
+        if (!pipeline.has(metadata.propertyName)) {
+          pipeline.set(metadata.propertyName, []);
+        }
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        pipeline.get(metadata.propertyName)!.push(metadata);
+      });
+
+    return pipeline;
   }
 
   /**
-   * Gets all sanitizator constraints for the given object.
+   * Gets all sanitizator constraints for the given object, or for the class registered with the given name.
    */
-  getSanitizeConstraintsForClassConstructor(target: Function): ConstraintMetadata[] {
+  getSanitizeConstraintsForClassConstructor(target: Function | string): ConstraintMetadata[] {
+    if (typeof target === 'string') {
+      const constraintClass = this.constraintNameStore.get(target);
+
+      return constraintClass ? this.getSanitizeConstraintsForClassConstructor(constraintClass) : [];
+    }
+
     return this.constraintMetadatasStore.get(target) || [];
   }
 
@@ -69,5 +188,90 @@ export class MetadataStorage {
   public reset() {
     this.sanitationMetadataStore = new Map();
     this.constraintMetadatasStore = new Map();
+    this.constraintNameStore = new Map();
+    this.overrideMetadataStore = new Map();
+    this.mixinMetadataStore = new Map();
+  }
+
+  /**
+   * Registers the name of the custom sanitizer, names must be unique as schemas reference the sanitizers by them.
+   */
+  private registerConstraintName({ target, name }: ConstraintMetadata): void {
+    if (name === undefined) {
+      return;
+    }
+
+    const registeredClass = this.constraintNameStore.get(name);
+
+    if (registeredClass && registeredClass !== target) {
+      throw new Error(`A custom sanitizer is already registered with name '${name}'.`);
+    }
+
+    this.constraintNameStore.set(name, target);
+  }
+
+  /**
+   * Gets the metadatas of the class of the given prototype with the given groups, sorted by their order.
+   */
+  private getSanitizeMetadatasForPrototype(
+    prototype: Object,
+    groups?: string[],
+    always?: boolean
+  ): SanitationMetadata[] {
+    return this.sortByOrder(
+      this.getInheritedSanitizeMetadatas(prototype, new Set()).filter(metadata =>
+        this.isMetadataInGroups(metadata, groups, always)
+      )
+    );
+  }
+
+  /**
+   * Collects the metadatas of the class of the given prototype, its parents and its mixins. The rules of the
+   * parent class come first, followed by the rules of the mixins in the order they were given and the own rules of
+   * the class. Rules inherited for a property are dropped when the class overrides the property.
+   *
+   * @param prototype the prototype to start the lookup from
+   * @param visited the prototypes which were already processed, used to skip classes found more than once
+   */
+  private getInheritedSanitizeMetadatas(prototype: Object | null, visited: Set<Object>): SanitationMetadata[] {
+    if (!prototype || prototype === Object.prototype || visited.has(prototype)) {
+      return [];
+    }
+    visited.add(prototype);
+
+    const overriddenProperties = this.overrideMetadataStore.get(prototype) || new Set<string | symbol>();
+    const inheritedMetadatas = this.getInheritedSanitizeMetadatas(Object.getPrototypeOf(prototype), visited);
+
+    (this.mixinMetadataStore.get(prototype) || []).forEach(mixin =>
+      inheritedMetadatas.push(...this.getInheritedSanitizeMetadatas(mixin.prototype, visited))
+    );
+
+    return [
+      ...inheritedMetadatas.filter(metadata => !overriddenProperties.has(metadata.propertyName)),
+      ...(this.sanitationMetadataStore.get(prototype as Function) || []),
+    ];
+  }
+
+  /**
+   * Sorts the metadatas by their `order` option. The sort is stable, so rules with the same order keep their
+   * default position.
+   */
+  private sortByOrder(metadatas: SanitationMetadata[]): SanitationMetadata[] {
+    return metadatas.sort((a, b) => (a.order || 0) - (b.order || 0));
+  }
+
+  /**
+   * Checks if the metadata must be applied when sanitizing with the given groups. The `@SanitizeIf` conditions are
+   * kept for every group, so they guard the rules of their property no matter which groups are requested.
+   */
+  private isMetadataInGroups(metadata: SanitationMetadata, groups?: string[], always?: boolean): boolean {
+    if (!groups || !groups.length || metadata.type === SanitizeTypes.CONDITIONAL) {
+      return true;
+    }
+
+    const metadataGroups = metadata.groups || [];
+    const isAlways = metadata.always !== undefined ? metadata.always : !metadataGroups.length && !!always;
+
+    return isAlways || metadataGroups.some(group => groups.includes(group));
   }
 }
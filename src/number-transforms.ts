@@ -0,0 +1,153 @@
+import { NumberParsingOptions, RoundingOptions } from './interfaces';
+
+/**
+ * Limits the number to the given range. Values which are not numbers are returned untouched.
+ */
+export function clamp(input: any, min?: number, max?: number): any {
+  if (typeof input !== 'number' || Number.isNaN(input)) {
+    return input;
+  }
+
+  const lowerBounded = min !== undefined ? Math.max(min, input) : input;
+
+  return max !== undefined ? Math.min(max, lowerBounded) : lowerBounded;
+}
+
+/**
+ * Rounds the number to the given number of decimal places. The number is shifted in its decimal representation,
+ * so values like `1.005` are rounded as written instead of based on their binary approximation.
+ * Values which are not numbers are returned untouched.
+ */
+export function round(input: any, options: RoundingOptions = {}): any {
+  if (typeof input !== 'number' || !Number.isFinite(input)) {
+    return input;
+  }
+
+  const { decimals = 0, mode = 'half-up' } = options;
+  const scaled = shiftDecimal(Math.abs(input), decimals);
+  const sign = input < 0 ? -1 : 1;
+  let rounded: number;
+
+  switch (mode) {
+    case 'ceil':
+      rounded = sign < 0 ? Math.floor(scaled) : Math.ceil(scaled);
+      break;
+    case 'floor':
+      rounded = sign < 0 ? Math.ceil(scaled) : Math.floor(scaled);
+      break;
+    case 'trunc':
+      rounded = Math.floor(scaled);
+      break;
+    case 'half-even': {
+      const floor = Math.floor(scaled);
+      const fraction = scaled - floor;
+      rounded = fraction > 0.5 || (fraction === 0.5 && floor % 2 === 1) ? floor + 1 : floor;
+      break;
+    }
+    default:
+      rounded = Math.floor(scaled + 0.5);
+  }
+
+  return sign * shiftDecimal(rounded, -decimals);
+}
+
+/**
+ * Parses the number written in the format of the given locale. Grouping separators and whitespace are accepted only
+ * between digit groups of the size used by the locale, currency symbols and codes are ignored when allowed.
+ * Returns NaN when the input is not a number. Throws an error when the runtime has no data for the locale.
+ */
+export function parseNumber(input: any, options: NumberParsingOptions = {}): number {
+  if (typeof input === 'number') {
+    return input;
+  }
+
+  const { locale = 'en', allowCurrency } = options;
+  const { group, decimal, groupSizes } = getNumberFormat(locale);
+  let value = String(input).trim();
+
+  if (allowCurrency) {
+    value = value
+      .replace(/\p{Sc}/gu, '')
+      .replace(/^[A-Z]{3}|[A-Z]{3}$/g, '')
+      .trim();
+  }
+
+  const match = new RegExp(
+    `^([+\\-\u2212]?)\\s*([^${escapeRegExp(decimal)}]*?)(?:${escapeRegExp(decimal)}(\\d*))?(e[+-]?\\d+)?$`,
+    'i'
+  ).exec(value);
+
+  if (!match) {
+    return NaN;
+  }
+
+  const [, sign, integer, fraction = '', exponent = ''] = match;
+  const integerGroups = integer ? integer.split(new RegExp(`${escapeRegExp(group)}|\\s+`)) : [];
+
+  if ((!integerGroups.length && !fraction) || !isValidGrouping(integerGroups, groupSizes)) {
+    return NaN;
+  }
+
+  const digits = `${integerGroups.join('') || '0'}.${fraction || '0'}${exponent}`;
+
+  return sign && sign !== '+' ? -Number(digits) : Number(digits);
+}
+
+/**
+ * Returns the separators and the sizes of the digit groups (the last group first) used by the locale.
+ */
+function getNumberFormat(locale: string): { group: string; decimal: string; groupSizes: number[] } {
+  if (!Intl.NumberFormat.supportedLocalesOf(locale).length) {
+    throw new Error(`The '${locale}' locale is not supported by the runtime.`);
+  }
+
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.8);
+
+  return {
+    group: (parts.find(part => part.type === 'group') || { value: ',' }).value,
+    decimal: (parts.find(part => part.type === 'decimal') || { value: '.' }).value,
+    groupSizes: parts
+      .filter(part => part.type === 'integer')
+      .map(part => part.value.length)
+      .reverse(),
+  };
+}
+
+/**
+ * Checks if the digit groups have the sizes used by the locale: the last group has the primary size, the groups
+ * before it the secondary size and the first group is not longer than the secondary size.
+ */
+function isValidGrouping(integerGroups: string[], groupSizes: number[]): boolean {
+  if (integerGroups.some(digits => !/^\d+$/.test(digits))) {
+    return false;
+  }
+  if (integerGroups.length < 2) {
+    return true;
+  }
+
+  const [primarySize = 3, secondarySize = primarySize] = groupSizes;
+  const [first, ...rest] = integerGroups;
+  const last = rest.pop() as string;
+
+  return (
+    first.length <= secondarySize &&
+    last.length === primarySize &&
+    rest.every(digits => digits.length === secondarySize)
+  );
+}
+
+/**
+ * Escapes the special characters of regular expressions.
+ */
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\\-]/g, '\\$&');
+}
+
+/**
+ * Multiplies the number by the given power of ten in its decimal representation.
+ */
+function shiftDecimal(value: number, exponent: number): number {
+  const [mantissa, valueExponent = '0'] = String(value).split('e');
+
+  return Number(`${mantissa}e${Number(valueExponent) + exponent}`);
+}
@@ -1,13 +1,58 @@
 import { SanitizeTypes } from './enums';
 import { defaultMetadataStorage } from './default-storage.const';
-import { SanitationMetadata } from './interfaces';
+import { MetadataStorage } from './metadata-storage.class';
+import {
+  SanitationMetadata,
+  SanitizerOptions,
+  SanitationReport,
+  SanitationChange,
+  SanitationArguments,
+  CustomSanitizer,
+  UnicodeNormalizationOptions,
+  HtmlSanitizationOptions,
+  SlugOptions,
+  NewlineNormalizationOptions,
+  RoundingOptions,
+  NumberParsingOptions,
+  DateParsingOptions,
+  UrlNormalizationOptions,
+  TruncationOptions,
+} from './interfaces';
+import { SanitationState } from './interfaces/sanitation-state.interface';
+import { getFromContainer } from './container';
+import { SanitationError, SanitationAggregateError } from './errors';
+import { sanitizeHtml } from './html-sanitizer';
+import {
+  capitalize,
+  collapseWhitespace,
+  normalizeNewlines,
+  slugify,
+  toCamelCase,
+  toSnakeCase,
+  truncate,
+} from './text-transforms';
+import { clamp, parseNumber, round } from './number-transforms';
+import { parseDate } from './date-transforms';
+import { normalizeUrl } from './url-normalizer';
 import validator from 'validator';
 
+/**
+ * Sanitation types which are applied to null and undefined values as well.
+ */
+const NULLISH_SANITIZE_TYPES = [SanitizeTypes.DEFAULT, SanitizeTypes.NULL_TO_UNDEFINED];
+
 /**
  * Sanitizer performs sanitation of the given object based on its metadata.
  */
 export class Sanitizer {
-  private metadataStorage = defaultMetadataStorage;
+  /**
+   * @param metadataStorage the storage the rules are looked up from
+   * @param defaultOptions the options used for every sanitation, options given to a single call override them
+   */
+  constructor(
+    private metadataStorage: MetadataStorage = defaultMetadataStorage,
+    private defaultOptions: SanitizerOptions = {}
+  ) {}
 
   /**
    * Remove characters that appear in the blacklist. The characters are used in a RegExp and so you will need to
@@ -17,6 +62,36 @@ export class Sanitizer {
     return validator.blacklist(str, chars);
   }
 
+  /**
+   * Convert the first character of the input to upper case, using the case mappings of the given locale when set.
+   */
+  public static capitalize(str: string, locale?: string): string {
+    return capitalize(str, locale);
+  }
+
+  /**
+   * Limit the number to the range between min and max, both of them are optional. Values which are not numbers are
+   * returned untouched.
+   */
+  public static clamp(input: any, min?: number, max?: number): any {
+    return clamp(input, min, max);
+  }
+
+  /**
+   * Replace every run of whitespace characters with a single space. If keepNewLines is true, line breaks are
+   * preserved and the whitespace at the end of the lines is removed.
+   */
+  public static collapseWhitespace(str: string, keepNewLines?: boolean): string {
+    return collapseWhitespace(str, keepNewLines);
+  }
+
+  /**
+   * Convert empty strings to null.
+   */
+  public static emptyToNull(input: any): any {
+    return input === '' ? null : input;
+  }
+
   /**
    * Replace <, >, &, ', " and / with HTML entities.
    */
@@ -38,6 +113,59 @@ export class Sanitizer {
     return validator.normalizeEmail(str, { all_lowercase: lowercase });
   }
 
+  /**
+   * Convert every line ending (`\r\n`, `\r` and `\n`) to the given one (`\n` by default) and limit the number of
+   * consecutive line breaks when maxConsecutive (at least 1) is set.
+   */
+  public static normalizeNewlines(str: string, options?: NewlineNormalizationOptions): string {
+    return normalizeNewlines(str, options);
+  }
+
+  /**
+   * Normalize the input to the given Unicode normalization form (NFC by default). Zero-width and bidirectional
+   * control characters are removed before the normalization when requested.
+   */
+  public static normalizeUnicode(
+    str: string,
+    form: 'NFC' | 'NFD' | 'NFKC' | 'NFKD' = 'NFC',
+    options: UnicodeNormalizationOptions = {}
+  ): string {
+    let result = str;
+
+    if (options.stripZeroWidth) {
+      result = result.replace(/[\u00AD\u180E\u200B-\u200D\u2060\uFEFF]/g, '');
+    }
+    if (options.stripBidi) {
+      result = result.replace(/[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g, '');
+    }
+
+    return result.normalize(options.foldCompatibility ? form.replace(/^NFK?/, 'NFK') : form);
+  }
+
+  /**
+   * Canonicalize a URL: lower case the scheme and the host, convert internationalized domain names to punycode,
+   * remove default ports and `utm_*` tracking parameters and sort the query. Returns false if the input is not an
+   * absolute URL or its scheme is not allowed.
+   */
+  public static normalizeUrl(str: string, options?: UrlNormalizationOptions): string | false {
+    return normalizeUrl(str, options);
+  }
+
+  /**
+   * Convert null to undefined.
+   */
+  public static nullToUndefined(input: any): any {
+    return input === null ? undefined : input;
+  }
+
+  /**
+   * Round the number to the given number of decimal places (0 by default) with the given mode (`half-up` by
+   * default). Values which are not numbers are returned untouched.
+   */
+  public static round(input: any, options?: RoundingOptions): any {
+    return round(input, options);
+  }
+
   /**
    * Trim characters from the right-side of the input.
    */
@@ -45,6 +173,22 @@ export class Sanitizer {
     return validator.rtrim(str, chars);
   }
 
+  /**
+   * Remove every HTML tag and attribute which is not allowed by the options, and URL attributes with disallowed
+   * schemes (eg: `javascript:`). The input is parsed without a browser DOM.
+   */
+  public static sanitizeHtml(str: string, options?: HtmlSanitizationOptions): string {
+    return sanitizeHtml(str, options);
+  }
+
+  /**
+   * Convert the input to a URL friendly slug. Accented characters are transliterated, every other character which
+   * is not a letter or a digit is removed and the words are joined with the separator (`-` by default).
+   */
+  public static slugify(str: string, options?: SlugOptions): string {
+    return slugify(str, options);
+  }
+
   /**
    * Remove characters with a numerical value < 32 and 127, mostly control characters.
    * If keepNewLines is true, newline characters are preserved (\n and \r, hex 0xA and 0xD).
@@ -66,13 +210,21 @@ export class Sanitizer {
   }
 
   /**
-   * Convert the input to a date, or null if the input is not a date.
+   * Convert the input to camel case, eg: `user first name` becomes `userFirstName`.
    */
-  public static toDate(input: any): Date | null {
-    if (input instanceof Date) {
-      return input;
-    }
-    return validator.toDate(input.toString());
+  public static toCamelCase(str: string, locale?: string): string {
+    return toCamelCase(str, locale);
+  }
+
+  /**
+   * Convert the input to a date, or null if the input is not a date. Strings are parsed by the given formats, numbers
+   * are read as Unix timestamps when the unit is given and input without UTC offset is read in the given timezone.
+   * Returns an ISO 8601 string instead of the date when the output option is `iso`.
+   */
+  public static toDate(input: any, options?: DateParsingOptions & { output?: 'date' }): Date | null;
+  public static toDate(input: any, options?: DateParsingOptions): Date | string | null;
+  public static toDate(input: any, options?: DateParsingOptions): Date | string | null {
+    return parseDate(input, options);
   }
 
   /**
@@ -91,6 +243,29 @@ export class Sanitizer {
     return validator.toInt('' + input, radix);
   }
 
+  /**
+   * Convert the input to lower case, using the case mappings of the given locale when set.
+   */
+  public static toLowerCase(str: string, locale?: string): string {
+    return str.toLocaleLowerCase(locale);
+  }
+
+  /**
+   * Convert the input to a number written in the format of the given locale (`en` by default), or NaN if the input
+   * is not a number. Grouping separators are accepted only between digit groups of the size used by the locale,
+   * currency symbols and codes are ignored when allowCurrency is set. Throws if the runtime has no data for the locale.
+   */
+  public static toNumber(input: any, options?: NumberParsingOptions): number {
+    return parseNumber(input, options);
+  }
+
+  /**
+   * Convert the input to snake case, eg: `userFirstName` becomes `user_first_name`.
+   */
+  public static toSnakeCase(str: string, locale?: string): string {
+    return toSnakeCase(str, locale);
+  }
+
   /**
    * Convert the input to a string.
    */
@@ -99,6 +274,13 @@ export class Sanitizer {
     return '' + input;
   }
 
+  /**
+   * Convert the input to upper case, using the case mappings of the given locale when set.
+   */
+  public static toUpperCase(str: string, locale?: string): string {
+    return str.toLocaleUpperCase(locale);
+  }
+
   /**
    * Trim characters (whitespace by default) from both sides of the input. You can specify chars that should be trimmed.
    */
@@ -106,6 +288,14 @@ export class Sanitizer {
     return validator.trim(str, chars);
   }
 
+  /**
+   * Shorten the input to the given maximum length, measured in graphemes (user-perceived characters), code points or
+   * UTF-8 bytes. Emoji and combined characters are not cut in half.
+   */
+  public static truncate(str: string, maxLength: number, options?: TruncationOptions): string {
+    return truncate(str, maxLength, options);
+  }
+
   /**
    * Remove characters that do not appear in the whitelist.
    * The characters are used in a RegExp and so you will need to escape some chars, e.g. whitelist(input, '\\[\\]').
@@ -116,42 +306,133 @@ export class Sanitizer {
 
   /**
    * Performs sanitation of the given object based on the decorator annotations in the class definition.
+   * When groups are given in the options only the matching rules are applied, in nested objects as well.
+   * Throws an error when an asynchronous custom sanitizer is encountered, use `sanitizeAsync` for those.
+   * When a schema name is given the object is sanitized based on the registered schema instead of its class.
    */
-  public sanitize<T = Record<string, any>>(classInstance: InstanceType<any>): T {
-    this.metadataStorage
-      .getSanitizeMetadatasForClassInstance(classInstance)
-      .filter(mt => classInstance[mt.propertyName] !== undefined && classInstance[mt.propertyName] !== null)
-      .forEach(metadata => {
-        /** If `each` is set we validate the values of the array.  */
-        if (metadata.each) {
-          if (!Array.isArray(classInstance[metadata.propertyName])) {
-            throw new Error(`Received a non-array value when expected array ('each' was set to true).`);
-          }
+  public sanitize<T = Record<string, any>>(classInstance: InstanceType<any>, options?: SanitizerOptions): T;
+  public sanitize<T = Record<string, any>>(schemaName: string, object: T, options?: SanitizerOptions): T;
+  public sanitize<T = Record<string, any>>(
+    classInstanceOrSchemaName: any,
+    objectOrOptions?: any,
+    schemaOptions?: SanitizerOptions
+  ): T {
+    if (typeof classInstanceOrSchemaName === 'string') {
+      const state = this.createState(schemaOptions, false);
 
-          (classInstance[metadata.propertyName] as any[]).forEach((value, index) => {
-            classInstance[metadata.propertyName][index] =
-              metadata.type === SanitizeTypes.NESTED
-                ? this.sanitize(classInstance[metadata.propertyName][index])
-                : this.sanitizeValue(value, metadata);
-          });
-        } else {
-          classInstance[metadata.propertyName] =
-            metadata.type === SanitizeTypes.NESTED
-              ? this.sanitize(classInstance[metadata.propertyName])
-              : this.sanitizeValue(classInstance[metadata.propertyName], metadata);
-        }
-      });
+      return this.sanitizeObject(objectOrOptions, state, '', 0, classInstanceOrSchemaName) as T;
+    }
 
-    return classInstance as T;
+    return this.sanitizeObject(classInstanceOrSchemaName, this.createState(objectOrOptions, false), '') as T;
   }
 
   /**
    * Performs sanitation of the given object based on annotations used in given object class.
-   * Performs in async-style, useful to use it in chained promises.
+   * Performs in async-style, every rule is awaited one after another so custom sanitizers may return a Promise.
+   * When a schema name is given the object is sanitized based on the registered schema instead of its class.
+   */
+  public async sanitizeAsync<T>(classInstance: T, options?: SanitizerOptions): Promise<T>;
+  public async sanitizeAsync<T>(schemaName: string, object: T, options?: SanitizerOptions): Promise<T>;
+  public async sanitizeAsync<T>(
+    classInstanceOrSchemaName: any,
+    objectOrOptions?: any,
+    schemaOptions?: SanitizerOptions
+  ): Promise<T> {
+    if (typeof classInstanceOrSchemaName === 'string') {
+      const state = this.createState(schemaOptions, true);
+
+      return await this.sanitizeObject(objectOrOptions, state, '', 0, classInstanceOrSchemaName);
+    }
+
+    return await this.sanitizeObject(classInstanceOrSchemaName, this.createState(objectOrOptions, true), '');
+  }
+
+  /**
+   * Performs sanitation of the given object the same way as `sanitize` and returns the list of altered values.
+   */
+  public sanitizeWithReport<T>(classInstance: T, options?: SanitizerOptions): SanitationReport<T> {
+    const changes: SanitationChange[] = [];
+    const object = this.sanitizeObject(classInstance, { ...this.createState(options, false), changes }, '');
+
+    return { object, changes };
+  }
+
+  /**
+   * Performs sanitation of the given object the same way as `sanitizeAsync` and returns the list of altered values.
+   */
+  public async sanitizeWithReportAsync<T>(classInstance: T, options?: SanitizerOptions): Promise<SanitationReport<T>> {
+    const changes: SanitationChange[] = [];
+    const object = await this.sanitizeObject(classInstance, { ...this.createState(options, true), changes }, '');
+
+    return { object, changes };
+  }
+
+  /**
+   * Performs sanitation of the given object the same way as `sanitize` but leaves it untouched. A new instance of
+   * the same class is returned with the sanitized values, nested objects and arrays are copied as well.
+   */
+  public sanitizeCopy<T>(classInstance: T, options?: SanitizerOptions): T {
+    return this.sanitizeObject(classInstance, { ...this.createState(options, false), copy: true }, '');
+  }
+
+  /**
+   * Performs sanitation of the given object the same way as `sanitizeAsync` but leaves it untouched. A new instance
+   * of the same class is returned with the sanitized values, nested objects and arrays are copied as well.
    */
-  // eslint-disable-next-line @typescript-eslint/require-await
-  public async sanitizeAsync<T>(classInstance: T): Promise<T> {
-    return this.sanitize<T>(classInstance);
+  public async sanitizeCopyAsync<T>(classInstance: T, options?: SanitizerOptions): Promise<T> {
+    return await this.sanitizeObject(classInstance, { ...this.createState(options, true), copy: true }, '');
+  }
+
+  /**
+   * Creates an instance of the given class from the plain object and sanitizes it. Nested plain objects are turned
+   * into instances of the class returned by the type function of their `@SanitizeNested` decorator. Arrays and
+   * collections are copied, so the plain object is left untouched.
+   */
+  public sanitizePlain<T>(type: new (...args: any[]) => T, plain: Record<string, any>, options?: SanitizerOptions): T {
+    const state = { ...this.createState(options, false), copy: true, plainToClass: true };
+
+    return this.sanitizeObject(plain, state, '', 0, undefined, type);
+  }
+
+  /**
+   * Creates an instance of the given class from the plain object and sanitizes it in async-style,
+   * the same way as `sanitizePlain` does.
+   */
+  public async sanitizePlainAsync<T>(
+    type: new (...args: any[]) => T,
+    plain: Record<string, any>,
+    options?: SanitizerOptions
+  ): Promise<T> {
+    const state = { ...this.createState(options, true), copy: true, plainToClass: true };
+
+    return await this.sanitizeObject(plain, state, '', 0, undefined, type);
+  }
+
+  /**
+   * Gets the rules applied to every property of the given class or schema in the order they are applied
+   * with the given options.
+   */
+  public getPipeline(
+    target: Function | string,
+    options?: SanitizerOptions
+  ): Map<string | symbol, SanitationMetadata[]> {
+    const { groups, always } = { ...this.defaultOptions, ...options };
+
+    return this.metadataStorage.getSanitationPipeline(target, groups, always);
+  }
+
+  /**
+   * Creates the state of a new sanitation run, the given options override the default options of the sanitizer.
+   */
+  private createState(options: SanitizerOptions | undefined, isAsync: boolean): SanitationState {
+    const mergedOptions = { ...this.defaultOptions, ...options };
+
+    return {
+      options: mergedOptions,
+      isAsync,
+      visited: new Map(),
+      ...(mergedOptions.collectErrors ? { errors: [] } : {}),
+    };
   }
 
   /**
@@ -159,46 +440,665 @@ export class Sanitizer {
    *
    * @param value the value to sanitize
    * @param metadata the metadata for the given property
+   * @param state the state of the current sanitation run
+   * @param args the arguments passed to custom sanitizers
    */
-  private sanitizeValue(value: any, metadata: SanitationMetadata): any {
+  private sanitizeValue(
+    value: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    args?: SanitationArguments
+  ): any {
     switch (metadata.type) {
       case SanitizeTypes.BLACKLIST:
         return Sanitizer.blacklist(value, metadata.value1);
+      case SanitizeTypes.CAPITALIZE:
+        return Sanitizer.capitalize(value, metadata.value1);
+      case SanitizeTypes.CLAMP:
+        return Sanitizer.clamp(value, metadata.value1, metadata.value2);
+      case SanitizeTypes.COLLAPSE_WHITESPACE:
+        return Sanitizer.collapseWhitespace(value, metadata.value1);
+      case SanitizeTypes.DEFAULT:
+        if (value !== undefined && value !== null) {
+          return value;
+        }
+        return typeof metadata.value1 === 'function' ? metadata.value1(args && args.object) : metadata.value1;
+      case SanitizeTypes.EMPTY_TO_NULL:
+        return Sanitizer.emptyToNull(value);
       case SanitizeTypes.ESCAPE:
         return Sanitizer.escape(value);
       case SanitizeTypes.LTRIM:
         return Sanitizer.ltrim(value, metadata.value1);
       case SanitizeTypes.NORMALIZE_EMAIL:
         return Sanitizer.normalizeEmail(value, metadata.value1);
+      case SanitizeTypes.NORMALIZE_NEWLINES:
+        return Sanitizer.normalizeNewlines(value, metadata.value1);
+      case SanitizeTypes.NORMALIZE_UNICODE:
+        return Sanitizer.normalizeUnicode(value, metadata.value1, metadata.value2);
+      case SanitizeTypes.NORMALIZE_URL:
+        return Sanitizer.normalizeUrl(value, metadata.value1);
+      case SanitizeTypes.NULL_TO_UNDEFINED:
+        return Sanitizer.nullToUndefined(value);
+      case SanitizeTypes.ROUND:
+        return Sanitizer.round(value, metadata.value1);
       case SanitizeTypes.RTRIM:
         return Sanitizer.rtrim(value, metadata.value1);
+      case SanitizeTypes.SANITIZE_HTML:
+        return Sanitizer.sanitizeHtml(value, metadata.value1);
+      case SanitizeTypes.SLUGIFY:
+        return Sanitizer.slugify(value, metadata.value1);
       case SanitizeTypes.STRIP_LOW:
         return Sanitizer.stripLow(value, metadata.value1);
       case SanitizeTypes.TO_BOOLEAN:
         return Sanitizer.toBoolean(value, metadata.value1);
+      case SanitizeTypes.TO_CAMEL_CASE:
+        return Sanitizer.toCamelCase(value, metadata.value1);
       case SanitizeTypes.TO_DATE:
-        return Sanitizer.toDate(value);
+        return Sanitizer.toDate(value, metadata.value1);
       case SanitizeTypes.TO_FLOAT:
         return Sanitizer.toFloat(value);
       case SanitizeTypes.TO_INT:
         return Sanitizer.toInt(value, metadata.value1);
+      case SanitizeTypes.TO_LOWER_CASE:
+        return Sanitizer.toLowerCase(value, metadata.value1);
+      case SanitizeTypes.TO_NUMBER:
+        return Sanitizer.toNumber(value, metadata.value1);
+      case SanitizeTypes.TO_SNAKE_CASE:
+        return Sanitizer.toSnakeCase(value, metadata.value1);
       case SanitizeTypes.TO_STRING:
         return Sanitizer.toString(value);
+      case SanitizeTypes.TO_UPPER_CASE:
+        return Sanitizer.toUpperCase(value, metadata.value1);
       case SanitizeTypes.TRIM:
         return Sanitizer.trim(value, metadata.value1);
+      case SanitizeTypes.TRUNCATE:
+        return Sanitizer.truncate(value, metadata.value1, metadata.value2);
       case SanitizeTypes.WHITELIST:
         return Sanitizer.whitelist(value, metadata.value1);
       case SanitizeTypes.CUSTOM_SANITIZATION:
-        return (
-          this.metadataStorage
-            .getSanitizeConstraintsForClassConstructor(metadata.value1)
-            // Here the value must exists because we create it when registering the decorators.
-            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-            .reduce((result, sanitizer) => sanitizer.instance!.sanitize(result), value)
-        );
+        return this.sanitizeCustomValue(value, metadata, state, args);
 
       default:
         throw Error(`Wrong sanitation type is supplied ${metadata.type} for value ${value}`);
     }
   }
+
+  /**
+   * Sanitizes every property of the given object based on the metadata of its class.
+   * Returns a Promise only when running in async mode and an asynchronous custom sanitizer was encountered.
+   * In copy mode the received object is left untouched and a sanitized copy of it is returned.
+   * Every object is sanitized only once per run, objects found again return the result of the first visit. Plain
+   * objects converted into different classes are sanitized once for each class.
+   *
+   * @param classInstance the object to sanitize
+   * @param state the state of the current sanitation run
+   * @param path the path of the object from the root object
+   * @param depth the number of nested objects between the root object and this object
+   * @param schemaName the name of the schema used instead of the metadata of the class
+   * @param type the class plain objects are turned into when converting plain objects
+   */
+  private sanitizeObject(
+    classInstance: any,
+    state: SanitationState,
+    path: string,
+    depth: number = 0,
+    schemaName?: string,
+    type?: Function
+  ): any {
+    const conversionType = state.plainToClass && type && !(classInstance instanceof type) ? type : undefined;
+
+    /** Only objects can be turned into class instances, everything else is left as it is. */
+    if (
+      conversionType &&
+      (classInstance === null || typeof classInstance !== 'object' || Array.isArray(classInstance))
+    ) {
+      return classInstance;
+    }
+
+    const visitedResults = state.visited.get(classInstance);
+
+    if (visitedResults && visitedResults.has(conversionType)) {
+      return visitedResults.get(conversionType);
+    }
+
+    const { maxDepth, onMaxDepthExceeded = 'throw' } = state.options;
+
+    if (maxDepth !== undefined && depth > maxDepth) {
+      if (onMaxDepthExceeded === 'skip') {
+        return classInstance;
+      }
+
+      throw new SanitationError(
+        `Maximum sanitation depth of ${maxDepth} exceeded at '${path}'.`,
+        path,
+        SanitizeTypes.NESTED,
+        classInstance
+      );
+    }
+
+    let target = classInstance;
+
+    if (conversionType) {
+      target = Object.assign(new (conversionType as new () => any)(), classInstance);
+    } else if (state.copy) {
+      target = Object.assign(Object.create(Object.getPrototypeOf(classInstance)), classInstance);
+    }
+
+    state.visited.set(classInstance, (visitedResults || new Map()).set(conversionType, target));
+
+    const { groups, always } = state.options;
+    const metadatas = schemaName
+      ? this.metadataStorage.getSanitizeMetadatasForSchema(schemaName, groups, always)
+      : this.metadataStorage.getSanitizeMetadatasForClassInstance(target, groups, always);
+
+    const conditionResults = new Map<string | symbol, boolean>();
+
+    return this.chain(
+      this.forEachInSeries(metadatas, metadata => {
+        if (
+          metadata.type === SanitizeTypes.CONDITIONAL ||
+          !this.isConditionMet(target, metadata.propertyName, metadatas, conditionResults, state, path)
+        ) {
+          return;
+        }
+
+        return this.sanitizeProperty(target, metadata, state, path, depth);
+      }),
+      () => {
+        if (depth === 0 && state.errors && state.errors.length) {
+          throw new SanitationAggregateError(state.errors);
+        }
+
+        return target;
+      }
+    );
+  }
+
+  /**
+   * Checks if every `@SanitizeIf` condition of the property is met. The conditions are evaluated only once per
+   * property, before its first rule is applied.
+   *
+   * @param object the object the property belongs to
+   * @param propertyName the name of the property
+   * @param metadatas every metadata of the object
+   * @param conditionResults the results of the conditions already evaluated for the object
+   * @param state the state of the current sanitation run
+   * @param path the path of the object from the root object
+   */
+  private isConditionMet(
+    object: any,
+    propertyName: string | symbol,
+    metadatas: SanitationMetadata[],
+    conditionResults: Map<string | symbol, boolean>,
+    state: SanitationState,
+    path: string
+  ): boolean {
+    if (!conditionResults.has(propertyName)) {
+      const value = object[propertyName];
+      const propertyPath = path ? `${path}.${String(propertyName)}` : String(propertyName);
+
+      /** A condition which throws an error is treated as not met when errors are collected. */
+      conditionResults.set(
+        propertyName,
+        metadatas
+          .filter(metadata => metadata.type === SanitizeTypes.CONDITIONAL && metadata.propertyName === propertyName)
+          .every(metadata =>
+            this.catchError(() => !!metadata.value1(object, value), value, metadata, state, propertyPath, false)
+          )
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return conditionResults.get(propertyName)!;
+  }
+
+  /**
+   * Applies a single rule to the property of the given object.
+   */
+  private sanitizeProperty(
+    classInstance: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    path: string,
+    depth: number
+  ): void | Promise<void> {
+    const propertyValue = classInstance[metadata.propertyName];
+    const propertyPath = path ? `${path}.${String(metadata.propertyName)}` : String(metadata.propertyName);
+
+    if (
+      (propertyValue === undefined || propertyValue === null) &&
+      (metadata.each ||
+        !(
+          NULLISH_SANITIZE_TYPES.includes(metadata.type) ||
+          (state.options.sanitizeNullish && metadata.type === SanitizeTypes.CUSTOM_SANITIZATION)
+        ))
+    ) {
+      return;
+    }
+
+    /** If `each` is set we validate the items of the array, Set, Map or dictionary.  */
+    if (metadata.each) {
+      return this.chain(
+        this.sanitizeCollection(propertyValue, classInstance, metadata, state, propertyPath, depth),
+        result => {
+          if (result !== propertyValue) {
+            classInstance[metadata.propertyName] = result;
+          }
+        }
+      );
+    }
+
+    const sanitizedValue = this.catchError(
+      () => this.sanitizeItem(propertyValue, classInstance, metadata, state, propertyPath, depth),
+      propertyValue,
+      metadata,
+      state,
+      propertyPath
+    );
+
+    return this.chain(sanitizedValue, result => {
+      classInstance[metadata.propertyName] = result;
+    });
+  }
+
+  /**
+   * Sanitizes every item of an array, Set, Map or plain object dictionary one after another. The keys of Maps and
+   * dictionaries are sanitized as well when requested. The items are written back once all of them were sanitized,
+   * in copy mode into a new collection.
+   */
+  private sanitizeCollection(
+    collection: any,
+    object: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    path: string,
+    depth: number
+  ): any {
+    const entries = this.getCollectionEntries(collection);
+
+    if (!entries) {
+      this.handleError(
+        new SanitationError(
+          `Received a value which is not an array, Set, Map or plain object when expected collection ('each' was set to true).`,
+          path,
+          metadata.type,
+          collection
+        ),
+        state
+      );
+
+      return collection;
+    }
+
+    const hasKeys = collection instanceof Map || this.isDictionary(collection);
+    const sanitizeKeys = hasKeys && !!metadata.keys && metadata.type !== SanitizeTypes.NESTED;
+    const sanitizedEntries: [any, any][] = [];
+    const sanitizedKeys = new Set<any>();
+    let hasKeyCollision = false;
+
+    return this.chain(
+      this.forEachInSeries(entries, ([key, value]) => {
+        const entryPath = `${path}[${String(key)}]`;
+
+        const sanitizedKey = sanitizeKeys
+          ? this.catchError(
+              () => this.sanitizeItem(key, object, metadata, state, entryPath, depth, true),
+              key,
+              metadata,
+              state,
+              entryPath
+            )
+          : key;
+
+        return this.chain(sanitizedKey, currentKey =>
+          this.chain(
+            this.catchError(
+              () => this.sanitizeItem(value, object, metadata, state, entryPath, depth),
+              value,
+              metadata,
+              state,
+              entryPath
+            ),
+            sanitizedValue => {
+              /** Dictionaries store every key as a string, so 1 and '1' end up as the same key. */
+              const entryKey = collection instanceof Map ? currentKey : String(currentKey);
+
+              if (sanitizeKeys && sanitizedKeys.has(entryKey)) {
+                hasKeyCollision = true;
+                this.handleError(
+                  new SanitationError(
+                    `The sanitized key '${String(currentKey)}' collides with another key of the collection.`,
+                    entryPath,
+                    metadata.type,
+                    key
+                  ),
+                  state
+                );
+
+                return;
+              }
+
+              sanitizedKeys.add(entryKey);
+              sanitizedEntries.push([currentKey, sanitizedValue]);
+            }
+          )
+        );
+      }),
+      /** The collection is left unchanged when errors are collected and two keys collide. */
+      () => this.setCollectionEntries(collection, hasKeyCollision ? entries : sanitizedEntries, !!state.copy)
+    );
+  }
+
+  /**
+   * Sanitizes a single value, nested objects are sanitized based on the metadata of their own class.
+   * Records the change in the state when the value was altered and a report was requested.
+   */
+  private sanitizeItem(
+    value: any,
+    object: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    path: string,
+    depth: number,
+    isKey: boolean = false
+  ): any {
+    if (metadata.type === SanitizeTypes.NESTED) {
+      /** Optional entries of collections are left empty. */
+      if (value === undefined || value === null) {
+        return value;
+      }
+
+      const schemaName = typeof metadata.value1 === 'string' ? metadata.value1 : undefined;
+      const type = typeof metadata.value1 === 'function' ? (metadata.value1 as () => Function)() : undefined;
+
+      return this.sanitizeObject(value, state, path, depth + 1, schemaName, type);
+    }
+
+    const args: SanitationArguments = {
+      constraints: metadata.value2 || [],
+      object,
+      property: metadata.propertyName,
+      path,
+      groups: state.options.groups,
+    };
+
+    const sanitizedValue = this.chain(this.sanitizeValue(value, metadata, state, args), result =>
+      this.isInvalidResult(metadata.type, result)
+        ? this.handleInvalidValue(value, result, metadata, state, path)
+        : result
+    );
+
+    return this.chain(sanitizedValue, result => {
+      if (state.changes && !Object.is(value, result)) {
+        state.changes.push({
+          path,
+          ...(isKey ? { key: true } : {}),
+          type: metadata.type,
+          sanitizer: metadata.type === SanitizeTypes.CUSTOM_SANITIZATION ? metadata.value1 : undefined,
+          before: value,
+          after: result,
+        });
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Passes the value through every registered instance of the custom sanitizer class one after another.
+   * The instances are resolved from the container when the rule is applied. Sanitizers registered by the global
+   * `@SanitizerConstraint()` decorator are found by sanitizers with their own storage as well.
+   */
+  private sanitizeCustomValue(
+    value: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    args?: SanitationArguments
+  ): any {
+    let constraints = this.metadataStorage.getSanitizeConstraintsForClassConstructor(metadata.value1);
+
+    if (!constraints.length && this.metadataStorage !== defaultMetadataStorage) {
+      constraints = defaultMetadataStorage.getSanitizeConstraintsForClassConstructor(metadata.value1);
+    }
+
+    if (!constraints.length) {
+      throw new Error(
+        typeof metadata.value1 === 'string'
+          ? `No custom sanitizer registered with name '${metadata.value1}'.`
+          : `Custom sanitizer ${metadata.value1.name} is not registered, decorate it with @SanitizerConstraint().`
+      );
+    }
+
+    return constraints.reduce<any>(
+      (result, constraint) =>
+        this.chain(result, currentValue => {
+          const customSanitizer = getFromContainer<CustomSanitizer>(constraint.target, state.options.container);
+          const sanitizedValue = customSanitizer.sanitize(currentValue, args);
+
+          if (!state.isAsync && this.isPromise(sanitizedValue)) {
+            /** We don't wait for the result, but we don't want to leave an unhandled rejection behind either. */
+            sanitizedValue.then(undefined, () => undefined);
+            throw new Error(
+              `Custom sanitizer ${constraint.target.name} returned a Promise, use sanitizeAsync() to run asynchronous sanitizers.`
+            );
+          }
+
+          return sanitizedValue;
+        }),
+      value
+    );
+  }
+
+  /**
+   * Checks if the result of a coercing rule means that the value could not be converted.
+   */
+  private isInvalidResult(type: SanitizeTypes, result: any): boolean {
+    switch (type) {
+      case SanitizeTypes.TO_INT:
+      case SanitizeTypes.TO_FLOAT:
+      case SanitizeTypes.TO_NUMBER:
+        return Number.isNaN(result);
+      case SanitizeTypes.TO_DATE:
+        return result === null || (result instanceof Date && Number.isNaN(result.getTime()));
+      case SanitizeTypes.NORMALIZE_EMAIL:
+      case SanitizeTypes.NORMALIZE_URL:
+        return result === false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Returns the value written back when a coercing rule could not convert the value, based on the `onInvalid`
+   * policy of the rule or of the sanitizer options. The result of the rule is returned when no policy is given.
+   *
+   * @param value the value before the rule was applied
+   * @param result the result of the rule
+   * @param metadata the metadata of the rule
+   * @param state the state of the current sanitation run
+   * @param path the path of the value from the root object
+   */
+  private handleInvalidValue(
+    value: any,
+    result: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    path: string
+  ): any {
+    const onInvalid = metadata.onInvalid || state.options.onInvalid;
+
+    switch (onInvalid) {
+      case 'keep':
+        return value;
+      case 'undefined':
+        return undefined;
+      case 'null':
+        return null;
+      case 'fallback':
+        return metadata.fallback !== undefined ? metadata.fallback : state.options.fallback;
+      case 'throw':
+        throw new SanitationError(`Invalid value received by the ${metadata.type} rule.`, path, metadata.type, value);
+      default:
+        return result;
+    }
+  }
+
+  /**
+   * Runs the callback applying a rule to the value and turns the errors thrown by it into `SanitationError`s.
+   * When errors are collected the value is returned unchanged instead of throwing the error, unless another result
+   * is given.
+   *
+   * @param callback applies the rule to the value
+   * @param value the value the rule is applied to
+   * @param metadata the metadata of the rule
+   * @param state the state of the current sanitation run
+   * @param path the path of the value from the root object
+   * @param resultOnError the result returned when errors are collected, the value by default
+   */
+  private catchError(
+    callback: () => any,
+    value: any,
+    metadata: SanitationMetadata,
+    state: SanitationState,
+    path: string,
+    resultOnError: any = value
+  ): any {
+    const onError = (error: any) => {
+      this.handleError(
+        error instanceof SanitationError
+          ? error
+          : new SanitationError(
+              error instanceof Error ? error.message : String(error),
+              path,
+              metadata.type,
+              value,
+              error
+            ),
+        state
+      );
+
+      return resultOnError;
+    };
+
+    try {
+      const result = callback();
+
+      return this.isPromise(result) ? result.then(undefined, onError) : result;
+    } catch (error) {
+      return onError(error);
+    }
+  }
+
+  /**
+   * Throws the error, or records it when errors are collected in this sanitation run.
+   */
+  private handleError(error: SanitationError, state: SanitationState): void {
+    if (!state.errors) {
+      throw error;
+    }
+
+    if (!state.errors.includes(error)) {
+      state.errors.push(error);
+    }
+  }
+
+  /**
+   * Returns the key-value pairs of the given collection, arrays and Sets are indexed by the position of the items.
+   * Returns undefined when the value is not a supported collection.
+   */
+  private getCollectionEntries(collection: any): [any, any][] | undefined {
+    if (Array.isArray(collection)) {
+      return collection.map((value, index) => [index, value]);
+    }
+
+    if (collection instanceof Set) {
+      return [...collection].map((value, index) => [index, value]);
+    }
+
+    if (collection instanceof Map) {
+      return [...collection.entries()];
+    }
+
+    if (this.isDictionary(collection)) {
+      return Object.keys(collection).map(key => [key, collection[key]]);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Replaces the content of the collection with the given key-value pairs, or creates a new collection of the same
+   * kind with them when copy is set.
+   */
+  private setCollectionEntries(collection: any, entries: [any, any][], copy: boolean): any {
+    if (Array.isArray(collection)) {
+      const target = copy ? [...collection] : collection;
+      entries.forEach(([index, value]) => (target[index] = value));
+
+      return target;
+    }
+
+    if (collection instanceof Set) {
+      const target = copy ? new Set() : collection;
+      target.clear();
+      entries.forEach(([, value]) => target.add(value));
+
+      return target;
+    }
+
+    if (collection instanceof Map) {
+      const target = copy ? new Map() : collection;
+      target.clear();
+      entries.forEach(([key, value]) => target.set(key, value));
+
+      return target;
+    }
+
+    const target = copy ? Object.create(Object.getPrototypeOf(collection)) : collection;
+    Object.keys(target).forEach(key => delete target[key]);
+    entries.forEach(([key, value]) => (target[key] = value));
+
+    return target;
+  }
+
+  /**
+   * Checks if the given value is a plain object used as a dictionary.
+   */
+  private isDictionary(value: any): value is Record<string, any> {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  /**
+   * Calls the callback for every item one after another. When a callback returns a Promise the next one is
+   * called only after it has been resolved, otherwise every callback is called synchronously.
+   */
+  private forEachInSeries<T>(
+    items: T[],
+    callback: (item: T, index: number) => void | Promise<void>
+  ): void | Promise<void> {
+    return items.reduce<void | Promise<void>>(
+      (previous, item, index) => this.chain(previous, () => callback(item, index)),
+      undefined
+    );
+  }
+
+  /**
+   * Calls the callback with the value, or with the resolved value when a Promise is received.
+   */
+  private chain<T, R>(value: T | Promise<T>, callback: (value: T) => R | Promise<R>): R | Promise<R> {
+    return this.isPromise(value) ? value.then(callback) : callback(value);
+  }
+
+  /**
+   * Checks if the given value is a Promise or a thenable object.
+   */
+  private isPromise(value: any): value is Promise<any> {
+    return !!value && typeof value.then === 'function';
+  }
 }
@@ -7,8 +7,8 @@ describe('Sanitizer', () => {
   it('should throw error when encountering unknown sanitize type', () => {
     const instance = new Sanitizer();
 
-    expect(() => instance['sanitizeValue'](null, { type: 'non-existent' } as any)).toThrowErrorMatchingInlineSnapshot(
-      `"Wrong sanitation type is supplied non-existent for value null"`
-    );
+    expect(() =>
+      instance['sanitizeValue'](null, { type: 'non-existent' } as any, {} as any)
+    ).toThrowErrorMatchingInlineSnapshot(`"Wrong sanitation type is supplied non-existent for value null"`);
   });
 });
@@ -0,0 +1,203 @@
+import { SlugOptions, NewlineNormalizationOptions, TruncationOptions } from './interfaces';
+
+/**
+ * Matches the words of a text: runs of lower case letters optionally starting with a capital letter, runs of
+ * capital letters (acronyms) and runs of digits.
+ */
+const WORD_PATTERN = /[\p{Lu}\p{Lt}]+(?=[\p{Lu}\p{Lt}][\p{Ll}\p{Lm}\p{Lo}])|[\p{Lu}\p{Lt}]?[\p{Ll}\p{Lm}\p{Lo}\p{M}]+|[\p{Lu}\p{Lt}][\p{Lu}\p{Lt}\p{M}]*|\p{N}+/gu;
+
+/** Letters which are not decomposed into a base letter and diacritics by the Unicode normalization. */
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss',
+  æ: 'ae',
+  Æ: 'AE',
+  œ: 'oe',
+  Œ: 'OE',
+  ø: 'o',
+  Ø: 'O',
+  đ: 'd',
+  Đ: 'D',
+  ð: 'd',
+  Ð: 'D',
+  ł: 'l',
+  Ł: 'L',
+  þ: 'th',
+  Þ: 'TH',
+  ı: 'i',
+};
+
+/**
+ * Approximates the grapheme clusters when `Intl.Segmenter` is not available: CRLF, flags, and characters followed by
+ * combining marks, emoji modifiers, tag characters and zero-width joiner sequences.
+ */
+const GRAPHEME_PATTERN = /\r\n|\p{Regional_Indicator}{2}|[\s\S](?:\u200D[\s\S]|[\p{M}\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}])*/gu;
+
+/** Transliterations which depend on the language of the text. */
+const LOCALE_TRANSLITERATIONS: Record<string, Record<string, string>> = {
+  de: { ä: 'ae', Ä: 'AE', ö: 'oe', Ö: 'OE', ü: 'ue', Ü: 'UE' },
+};
+
+/**
+ * Converts the first character of the text to upper case.
+ */
+export function capitalize(str: string, locale?: string): string {
+  const [first = '', ...rest] = Array.from(str);
+
+  return first.toLocaleUpperCase(locale) + rest.join('');
+}
+
+/**
+ * Converts the text to camel case, eg: `user first name` becomes `userFirstName`.
+ */
+export function toCamelCase(str: string, locale?: string): string {
+  return splitWords(str)
+    .map((word, index) => {
+      const lowerCaseWord = word.toLocaleLowerCase(locale);
+      return index === 0 ? lowerCaseWord : capitalize(lowerCaseWord, locale);
+    })
+    .join('');
+}
+
+/**
+ * Converts the text to snake case, eg: `userFirstName` becomes `user_first_name`.
+ */
+export function toSnakeCase(str: string, locale?: string): string {
+  return splitWords(str)
+    .map(word => word.toLocaleLowerCase(locale))
+    .join('_');
+}
+
+/**
+ * Converts the text to a URL friendly slug. Accented characters are transliterated to ASCII letters, every other
+ * character is removed and the words are joined with the separator.
+ */
+export function slugify(str: string, options: SlugOptions = {}): string {
+  const { separator = '-', locale, lowercase = true } = options;
+  const language = locale ? locale.toLowerCase().split(/[-_]/)[0] : undefined;
+  const transliterations = {
+    ...TRANSLITERATIONS,
+    ...((language && LOCALE_TRANSLITERATIONS[language]) || {}),
+  };
+
+  const ascii = Array.from(lowercase ? str.toLocaleLowerCase(locale) : str)
+    .map(char => (transliterations[char] !== undefined ? transliterations[char] : char))
+    .join('')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '');
+
+  return (ascii.match(/[a-zA-Z0-9]+/g) || []).join(separator);
+}
+
+/**
+ * Replaces every run of whitespace characters with a single space. When line breaks are kept only the runs of
+ * horizontal whitespace are collapsed and the whitespace at the end of the lines is removed.
+ */
+export function collapseWhitespace(str: string, keepNewLines?: boolean): string {
+  if (!keepNewLines) {
+    return str.replace(/\s+/g, ' ');
+  }
+
+  return str.replace(/[^\S\r\n]+/g, ' ').replace(/ (?=\r|\n|$)/g, '');
+}
+
+/**
+ * Converts every line ending to the given one and shortens the runs of line breaks longer than the allowed maximum.
+ * Throws an error when the allowed maximum is less than 1.
+ */
+export function normalizeNewlines(str: string, options: NewlineNormalizationOptions = {}): string {
+  const { to = '\n', maxConsecutive } = options;
+
+  validateMaxConsecutive(maxConsecutive);
+
+  /** The runs are shortened on `\n` line endings, so the converted line ending never becomes part of a pattern. */
+  const result = str.replace(/\r\n|\r/g, '\n');
+  const shortened =
+    maxConsecutive === undefined
+      ? result
+      : result.replace(new RegExp(`\\n{${maxConsecutive + 1},}`, 'g'), '\n'.repeat(maxConsecutive));
+
+  return to === '\n' ? shortened : shortened.replace(/\n/g, to);
+}
+
+/**
+ * Throws an error when the allowed maximum of consecutive line breaks is not an integer of at least 1.
+ */
+export function validateMaxConsecutive(maxConsecutive: number | undefined): void {
+  if (maxConsecutive !== undefined && !(Number.isInteger(maxConsecutive) && maxConsecutive >= 1)) {
+    throw new Error(`The maxConsecutive option must be an integer of at least 1, received ${maxConsecutive}.`);
+  }
+}
+
+/**
+ * Shortens the text to the maximum length in the given unit. The ellipsis is appended within the maximum length and
+ * the text is cut at the end of the last whole word when wordBoundary is set.
+ */
+export function truncate(str: string, maxLength: number, options: TruncationOptions = {}): string {
+  const { unit = 'grapheme', ellipsis = '', wordBoundary = false } = options;
+  const measure = (text: string) => (unit === 'byte' ? getByteLength(text) : splitSegments(text, unit).length);
+
+  if (measure(str) <= maxLength) {
+    return str;
+  }
+
+  const suffix = measure(ellipsis) <= maxLength ? ellipsis : '';
+  const limit = maxLength - measure(suffix);
+  let result = '';
+  let length = 0;
+
+  for (const segment of splitSegments(str, unit)) {
+    length += unit === 'byte' ? getByteLength(segment) : 1;
+
+    if (length > limit) {
+      break;
+    }
+    result += segment;
+  }
+
+  if (wordBoundary && !/^\s/.test(str.slice(result.length))) {
+    const lastSpace = result.search(/\s\S*$/);
+
+    if (lastSpace > 0) {
+      result = result.slice(0, lastSpace);
+    }
+  }
+
+  return (wordBoundary ? result.replace(/\s+$/, '') : result) + suffix;
+}
+
+/**
+ * Splits the text into code points, or into grapheme clusters for the `grapheme` and `byte` units.
+ */
+function splitSegments(str: string, unit: 'grapheme' | 'codepoint' | 'byte'): string[] {
+  if (unit === 'codepoint') {
+    return Array.from(str);
+  }
+
+  /** `Intl.Segmenter` is not part of the ES2018 type definitions. */
+  const Segmenter = (Intl as any).Segmenter;
+
+  if (Segmenter) {
+    return Array.from(new Segmenter(undefined, { granularity: 'grapheme' }).segment(str), (item: any) => item.segment);
+  }
+
+  return str.match(GRAPHEME_PATTERN) || [];
+}
+
+/**
+ * Returns the length of the text encoded as UTF-8.
+ */
+function getByteLength(str: string): number {
+  return Array.from(str).reduce((length, char) => {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    const codePoint = char.codePointAt(0)!;
+
+    return length + (codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4);
+  }, 0);
+}
+
+/**
+ * Splits the text into words at non-alphanumeric characters and at the case changes.
+ */
+function splitWords(str: string): string[] {
+  return str.match(WORD_PATTERN) || [];
+}
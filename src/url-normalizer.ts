@@ -0,0 +1,73 @@
+import { URL } from 'url';
+import { UrlNormalizationOptions } from './interfaces';
+
+const DEFAULT_ALLOWED_SCHEMES = ['http', 'https'];
+
+/** Query parameters added by campaign tracking, eg: `utm_source`. */
+const TRACKING_PARAM_PATTERN = /^utm_/i;
+
+/**
+ * Converts the URL to its canonical form. The scheme and the host are lower cased, internationalized domain names
+ * are converted to punycode and default ports are removed by the WHATWG URL parser. The query is changed only when
+ * tracking parameters are removed or the parameters are sorted. Returns false when the input is not an absolute URL
+ * or its scheme is not allowed.
+ *
+ * @param input the URL to normalize
+ * @param options the allowed schemes and the query transformations
+ */
+export function normalizeUrl(input: string, options: UrlNormalizationOptions = {}): string | false {
+  const { stripTrackingParams = true, sortQuery = true } = options;
+  const allowedSchemes = (options.allowedSchemes || DEFAULT_ALLOWED_SCHEMES).map(scheme => scheme.toLowerCase());
+
+  if (typeof input !== 'string') {
+    return false;
+  }
+
+  let url: URL;
+
+  try {
+    url = new URL(input.trim());
+  } catch (error) {
+    return false;
+  }
+
+  if (!allowedSchemes.includes(url.protocol.slice(0, -1))) {
+    return false;
+  }
+
+  if (url.search) {
+    url.search = normalizeQuery(url.search.slice(1), stripTrackingParams, sortQuery);
+  }
+
+  return url.href;
+}
+
+/**
+ * Removes the tracking parameters from the query and sorts the parameters by their name. The parameters are moved
+ * as they are written, so their encoding (eg: `%20` or `+`) and parameters without value (eg: `?flag`) are kept.
+ */
+function normalizeQuery(query: string, stripTrackingParams: boolean, sortQuery: boolean): string {
+  const params = query.split('&').map(param => ({ param, name: decodeParamName(param) }));
+  const keptParams = stripTrackingParams ? params.filter(({ name }) => !TRACKING_PARAM_PATTERN.test(name)) : params;
+
+  /** `Array.prototype.sort` is stable, parameters with the same name keep their order. */
+  const sortedParams = sortQuery
+    ? [...keptParams].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    : keptParams;
+
+  return sortedParams.map(({ param }) => param).join('&');
+}
+
+/**
+ * Decodes the name of the query parameter the way `URLSearchParams` does. Returns the name as it is written when it
+ * is not valid percent-encoding.
+ */
+function decodeParamName(param: string): string {
+  const name = param.split('=')[0].replace(/\+/g, ' ');
+
+  try {
+    return decodeURIComponent(name);
+  } catch (error) {
+    return name;
+  }
+}
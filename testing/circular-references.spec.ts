@@ -0,0 +1,109 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { Escape, SanitizeNested, Trim } from '../src/decorators';
+import { sanitize, sanitizeCopy } from '../src';
+
+describe('Circular references and depth limits', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  function defineClasses() {
+    class Child {
+      @Trim()
+      name: string;
+
+      @SanitizeNested()
+      parent: object;
+    }
+
+    class Parent {
+      @Trim()
+      name: string;
+
+      @SanitizeNested({ each: true })
+      children: Child[];
+    }
+
+    const parent = Object.assign(new Parent(), { name: ' parent ' });
+    const child = Object.assign(new Child(), { name: ' child ', parent });
+    parent.children = [child];
+
+    return { parent, child };
+  }
+
+  it('should sanitize objects with back-references', () => {
+    const { parent, child } = defineClasses();
+
+    sanitize(parent);
+
+    expect(parent.name).toBe('parent');
+    expect(child.name).toBe('child');
+    expect(child.parent).toBe(parent);
+  });
+
+  it('should keep back-references pointing to the copies in copy mode', () => {
+    const { parent } = defineClasses();
+
+    const result = sanitizeCopy(parent);
+
+    expect(result).not.toBe(parent);
+    expect(result.children[0].parent).toBe(result);
+    expect(result.children[0].name).toBe('child');
+    expect(parent.children[0].name).toBe(' child ');
+  });
+
+  it('should sanitize shared objects only once', () => {
+    class Address {
+      @Escape()
+      street: string;
+    }
+
+    class TestClass {
+      @SanitizeNested()
+      billingAddress: Address;
+
+      @SanitizeNested()
+      shippingAddress: Address;
+    }
+
+    const address = Object.assign(new Address(), { street: 'Main & Co' });
+    const instance = Object.assign(new TestClass(), { billingAddress: address, shippingAddress: address });
+
+    sanitize(instance);
+
+    expect(address.street).toBe('Main &amp; Co');
+  });
+
+  it('should throw when the maximum depth is exceeded', () => {
+    const { parent } = defineClasses();
+
+    expect(() => sanitize(parent, { maxDepth: 0 })).toThrow(`Maximum sanitation depth of 0 exceeded at 'children[0]'.`);
+  });
+
+  it('should leave objects below the maximum depth untouched with "skip" policy', () => {
+    class Inner {
+      @Trim()
+      text: string;
+    }
+
+    class Middle {
+      @Trim()
+      text: string;
+
+      @SanitizeNested()
+      inner: Inner;
+    }
+
+    class TestClass {
+      @SanitizeNested()
+      middle: Middle;
+    }
+
+    const inner = Object.assign(new Inner(), { text: ' inner ' });
+    const middle = Object.assign(new Middle(), { text: ' middle ', inner });
+    const instance = Object.assign(new TestClass(), { middle });
+
+    sanitize(instance, { maxDepth: 1, onMaxDepthExceeded: 'skip' });
+
+    expect(middle.text).toBe('middle');
+    expect(inner.text).toBe(' inner ');
+  });
+});
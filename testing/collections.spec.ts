@@ -0,0 +1,237 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { Trim, SanitizeNested, Sanitize, SanitizerConstraint, ToLowerCase } from '../src/decorators';
+import { CustomSanitizer } from '../src/interfaces';
+import { SanitationAggregateError, sanitize, sanitizeCopy, sanitizeWithReport } from '../src';
+
+describe('Collections', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should sanitize the values of a Set', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      tags: Set<string>;
+    }
+
+    const tags = new Set([' a ', ' b ']);
+    const instance = Object.assign(new TestClass(), { tags });
+
+    sanitize(instance);
+
+    expect(instance.tags).toBe(tags);
+    expect([...instance.tags]).toEqual(['a', 'b']);
+  });
+
+  it('should sanitize the values of a Map', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      labels: Map<string, string>;
+    }
+
+    const instance = Object.assign(new TestClass(), { labels: new Map([[' key ', ' value ']]) });
+
+    sanitize(instance);
+
+    expect([...instance.labels.entries()]).toEqual([[' key ', 'value']]);
+  });
+
+  it('should sanitize the values of a plain object dictionary', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      labels: Record<string, string>;
+    }
+
+    const instance = Object.assign(new TestClass(), { labels: { first: ' a ', second: ' b ' } });
+
+    sanitize(instance);
+
+    expect(instance.labels).toEqual({ first: 'a', second: 'b' });
+  });
+
+  it('should sanitize the keys of Maps and dictionaries with "keys: true"', () => {
+    @SanitizerConstraint()
+    class LowerCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toLowerCase();
+      }
+    }
+
+    class TestClass {
+      @Sanitize(LowerCaseSanitizer, { each: true, keys: true })
+      @Trim(undefined, { each: true, keys: true })
+      labels: Record<string, string>;
+
+      @Trim(undefined, { each: true, keys: true })
+      headers: Map<string, string>;
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      labels: { ' First ': ' A ' },
+      headers: new Map([[' Accept ', ' json ']]),
+    });
+
+    const { changes } = sanitizeWithReport(instance);
+
+    expect(instance.labels).toEqual({ first: 'a' });
+    expect([...instance.headers.entries()]).toEqual([['Accept', 'json']]);
+    expect(changes.filter(change => change.key).map(change => change.after)).toEqual(['First', 'first', 'Accept']);
+  });
+
+  it('should throw when two keys become the same after sanitation', () => {
+    class TestClass {
+      @ToLowerCase(undefined, { each: true, keys: true })
+      labels: Map<string, string>;
+
+      @Trim(undefined, { each: true, keys: true })
+      names: Record<string, string>;
+    }
+
+    const labels = Object.assign(new TestClass(), {
+      labels: new Map([
+        ['A', 'first'],
+        ['a', 'second'],
+      ]),
+    });
+    const names = Object.assign(new TestClass(), { names: { a: 'first', ' a ': 'second' } });
+
+    expect(() => sanitize(labels)).toThrow(`The sanitized key 'a' collides with another key of the collection.`);
+    expect(() => sanitize(names)).toThrow(`The sanitized key 'a' collides with another key of the collection.`);
+  });
+
+  it('should leave the collection unchanged when two keys collide and errors are collected', () => {
+    class TestClass {
+      @Trim(undefined, { each: true, keys: true })
+      labels: Map<string, string>;
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      labels: new Map([
+        [' a ', ' first '],
+        ['a', ' second '],
+      ]),
+    });
+
+    let error: SanitationAggregateError | undefined;
+
+    try {
+      sanitize(instance, { collectErrors: true });
+    } catch (thrownError) {
+      error = thrownError;
+    }
+
+    expect(error && error.errors.map(({ path, value }) => ({ path, value }))).toEqual([
+      { path: 'labels[a]', value: 'a' },
+    ]);
+    expect([...instance.labels.entries()]).toEqual([
+      [' a ', ' first '],
+      ['a', ' second '],
+    ]);
+  });
+
+  it('should sanitize nested objects in Maps, Sets and dictionaries', () => {
+    class Address {
+      @Trim()
+      city: string;
+    }
+
+    class TestClass {
+      @SanitizeNested({ each: true })
+      addressesByType: Map<string, Address>;
+
+      @SanitizeNested({ each: true })
+      addressSet: Set<Address>;
+
+      @SanitizeNested({ each: true })
+      addressesByName: Record<string, Address>;
+    }
+
+    const createAddress = (city: string) => Object.assign(new Address(), { city });
+    const instance = Object.assign(new TestClass(), {
+      addressesByType: new Map([['home', createAddress(' Budapest ')]]),
+      addressSet: new Set([createAddress(' Vienna ')]),
+      addressesByName: { office: createAddress(' Prague ') },
+    });
+
+    sanitize(instance);
+
+    expect(instance.addressesByType.get('home').city).toBe('Budapest');
+    expect([...instance.addressSet][0].city).toBe('Vienna');
+    expect(instance.addressesByName.office.city).toBe('Prague');
+  });
+
+  it('should leave null and undefined nested objects in collections untouched', () => {
+    class Address {
+      @Trim()
+      city: string;
+    }
+
+    class TestClass {
+      @SanitizeNested({ each: true })
+      addresses: Address[];
+
+      @SanitizeNested({ each: true })
+      addressesByType: Map<string, Address>;
+
+      @SanitizeNested({ each: true })
+      addressesByName: Record<string, Address>;
+    }
+
+    const createInstance = () =>
+      Object.assign(new TestClass(), {
+        addresses: [null, Object.assign(new Address(), { city: ' Vienna ' }), undefined],
+        addressesByType: new Map([['home', null]]),
+        addressesByName: { office: undefined },
+      });
+
+    const instance = createInstance();
+    const copy = sanitizeCopy(createInstance());
+
+    sanitize(instance);
+
+    expect(instance.addresses).toEqual([null, { city: 'Vienna' }, undefined]);
+    expect(instance.addressesByType.get('home')).toBeNull();
+    expect(instance.addressesByName).toEqual({ office: undefined });
+    expect(copy.addresses).toEqual([null, { city: 'Vienna' }, undefined]);
+    expect(copy.addressesByType.get('home')).toBeNull();
+  });
+
+  it('should create new collections in copy mode', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      tags: Set<string>;
+
+      @Trim(undefined, { each: true, keys: true })
+      labels: Map<string, string>;
+
+      @Trim(undefined, { each: true })
+      names: Record<string, string>;
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      tags: new Set([' a ']),
+      labels: new Map([[' key ', ' value ']]),
+      names: { first: ' name ' },
+    });
+
+    const result = sanitizeCopy(instance);
+
+    expect([...result.tags]).toEqual(['a']);
+    expect([...result.labels.entries()]).toEqual([['key', 'value']]);
+    expect(result.names).toEqual({ first: 'name' });
+    expect([...instance.tags]).toEqual([' a ']);
+    expect([...instance.labels.entries()]).toEqual([[' key ', ' value ']]);
+    expect(instance.names).toEqual({ first: ' name ' });
+  });
+
+  it('should throw when the value is not a collection', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      tags: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { tags: ' a ' });
+
+    expect(() => sanitize(instance)).toThrow(
+      `Received a value which is not an array, Set, Map or plain object when expected collection ('each' was set to true).`
+    );
+  });
+});
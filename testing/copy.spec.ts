@@ -0,0 +1,83 @@
+import { Trim, SanitizeNested } from '../src/decorators';
+import { sanitizeCopy, sanitizeCopyAsync } from '../src';
+
+describe('Copy mode', () => {
+  class InnerTestClass {
+    @Trim()
+    text: string;
+
+    constructor(text: string) {
+      this.text = text;
+    }
+  }
+
+  class TestClass {
+    @Trim()
+    name: string;
+
+    @Trim(undefined, { each: true })
+    tags: string[];
+
+    @SanitizeNested()
+    child: InnerTestClass;
+
+    @SanitizeNested({ each: true })
+    children: InnerTestClass[];
+
+    metadata: Record<string, string>;
+  }
+
+  function createInstance(): TestClass {
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.tags = [' a ', ' b '];
+    instance.child = new InnerTestClass(' child ');
+    instance.children = [new InnerTestClass(' first ')];
+    instance.metadata = { key: ' value ' };
+
+    return instance;
+  }
+
+  it('should return a sanitized copy and leave the received object untouched', () => {
+    const instance = createInstance();
+
+    const result = sanitizeCopy(instance);
+
+    expect(result).not.toBe(instance);
+    expect(result).toBeInstanceOf(TestClass);
+    expect(result.name).toBe('name');
+    expect(result.tags).toEqual(['a', 'b']);
+    expect(result.child).toBeInstanceOf(InnerTestClass);
+    expect(result.child.text).toBe('child');
+    expect(result.children[0]).toBeInstanceOf(InnerTestClass);
+    expect(result.children[0].text).toBe('first');
+    expect(instance).toEqual(createInstance());
+  });
+
+  it('should not share sanitized arrays and nested objects with the received object', () => {
+    const instance = createInstance();
+
+    const result = sanitizeCopy(instance);
+
+    expect(result.tags).not.toBe(instance.tags);
+    expect(result.child).not.toBe(instance.child);
+    expect(result.children).not.toBe(instance.children);
+    expect(result.children[0]).not.toBe(instance.children[0]);
+    expect(result.metadata).toBe(instance.metadata);
+  });
+
+  it('should sanitize frozen objects', async () => {
+    const instance = createInstance();
+    Object.freeze(instance);
+    Object.freeze(instance.tags);
+    Object.freeze(instance.child);
+
+    const result = await sanitizeCopyAsync(instance);
+
+    expect(Object.isFrozen(result)).toBe(false);
+    expect(result.name).toBe('name');
+    expect(result.tags).toEqual(['a', 'b']);
+    expect(result.child.text).toBe('child');
+    expect(instance.name).toBe(' name ');
+  });
+});
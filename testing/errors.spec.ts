@@ -0,0 +1,176 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { SanitizeTypes } from '../src/enums';
+import { CustomSanitizer } from '../src/interfaces';
+import {
+  sanitize,
+  sanitizeAsync,
+  Sanitize,
+  SanitizeIf,
+  SanitizeNested,
+  SanitizerConstraint,
+  SanitationAggregateError,
+  SanitationError,
+  Trim,
+} from '../src';
+
+describe('Sanitation errors', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  function catchError(callback: () => any): any {
+    try {
+      callback();
+    } catch (error) {
+      return error;
+    }
+  }
+
+  it('should throw a SanitationError with the path, the rule type and the value', () => {
+    class InnerTestClass {
+      @Trim(undefined, { each: true })
+      tags: any;
+    }
+
+    class TestClass {
+      @SanitizeNested({ each: true })
+      children: InnerTestClass[];
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      children: [Object.assign(new InnerTestClass(), { tags: 'not-a-list' })],
+    });
+
+    const error = catchError(() => sanitize(instance));
+
+    expect(error).toBeInstanceOf(SanitationError);
+    expect(error.path).toBe('children[0].tags');
+    expect(error.type).toBe(SanitizeTypes.TRIM);
+    expect(error.value).toBe('not-a-list');
+  });
+
+  it('should wrap the errors thrown while applying a rule', () => {
+    class TestClass {
+      @Trim(undefined, { each: true })
+      tags: any[];
+    }
+
+    const instance = Object.assign(new TestClass(), { tags: [' a ', 42] });
+
+    const error = catchError(() => sanitize(instance));
+
+    expect(error).toBeInstanceOf(SanitationError);
+    expect(error.message).toBe('Expected string but received a number.');
+    expect(error.path).toBe('tags[1]');
+    expect(error.value).toBe(42);
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should collect every error when collectErrors is set', () => {
+    @SanitizerConstraint()
+    class FailingSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        throw new Error(`Invalid code: ${value}`);
+      }
+    }
+
+    class InnerTestClass {
+      @Sanitize(FailingSanitizer)
+      code: string;
+
+      @Trim()
+      name: string;
+    }
+
+    class TestClass {
+      @Trim()
+      count: any;
+
+      @SanitizeNested()
+      child: InnerTestClass;
+
+      @Trim()
+      title: string;
+    }
+
+    const instance = Object.assign(new TestClass(), {
+      count: 1,
+      child: Object.assign(new InnerTestClass(), { code: 'x', name: ' name ' }),
+      title: ' title ',
+    });
+
+    const error = catchError(() => sanitize(instance, { collectErrors: true }));
+
+    expect(error).toBeInstanceOf(SanitationAggregateError);
+    expect(error.errors.map((sanitationError: SanitationError) => sanitationError.path)).toEqual([
+      'count',
+      'child.code',
+    ]);
+    expect(error.message).toBe(
+      '2 sanitation error(s) occurred:\n- count: Expected string but received a number.\n- child.code: Invalid code: x'
+    );
+    expect(instance).toEqual({ count: 1, child: { code: 'x', name: 'name' }, title: 'title' });
+  });
+
+  it('should collect the errors of asynchronous sanitizers', async () => {
+    @SanitizerConstraint()
+    class FailingSanitizer implements CustomSanitizer {
+      async sanitize(): Promise<string> {
+        return Promise.reject(new Error('lookup failed'));
+      }
+    }
+
+    class TestClass {
+      @Sanitize(FailingSanitizer, { each: true })
+      codes: string[];
+    }
+
+    const instance = Object.assign(new TestClass(), { codes: ['a', 'b'] });
+
+    const error = await sanitizeAsync(instance, { collectErrors: true }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SanitationAggregateError);
+    expect(error.errors.map((sanitationError: SanitationError) => sanitationError.path)).toEqual([
+      'codes[0]',
+      'codes[1]',
+    ]);
+    expect(instance.codes).toEqual(['a', 'b']);
+  });
+
+  it('should not throw when no error was collected', () => {
+    class TestClass {
+      @Trim()
+      title: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { title: ' title ' });
+
+    expect(sanitize(instance, { collectErrors: true })).toEqual({ title: 'title' });
+  });
+
+  it('should turn errors thrown by conditions into sanitation errors', () => {
+    const conditionError = new Error('Condition failed.');
+
+    class InnerTestClass {
+      @SanitizeIf(() => {
+        throw conditionError;
+      })
+      @Trim()
+      text: string;
+    }
+
+    class TestClass {
+      @SanitizeNested()
+      child: InnerTestClass;
+    }
+
+    const instance = Object.assign(new TestClass(), { child: Object.assign(new InnerTestClass(), { text: ' x ' }) });
+
+    const error = catchError(() => sanitize(instance));
+    const collectedError = catchError(() => sanitize(instance, { collectErrors: true }));
+
+    expect(error).toBeInstanceOf(SanitationError);
+    expect(error).toMatchObject({ path: 'child.text', type: SanitizeTypes.CONDITIONAL, cause: conditionError });
+    expect(collectedError).toBeInstanceOf(SanitationAggregateError);
+    expect(collectedError.errors).toEqual([expect.objectContaining({ path: 'child.text' })]);
+    expect(instance.child.text).toBe(' x ');
+  });
+});
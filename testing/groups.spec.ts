@@ -0,0 +1,117 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { Trim, ToInt, SanitizeNested } from '../src/decorators';
+import { sanitize, sanitizeAsync } from '../src';
+
+describe('Groups', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should apply every rule when no groups are given', () => {
+    class TestClass {
+      @Trim(undefined, { groups: ['create'] })
+      name: string;
+
+      @Trim()
+      label: string;
+    }
+
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.label = ' label ';
+
+    sanitize(instance);
+
+    expect(instance.name).toBe('name');
+    expect(instance.label).toBe('label');
+  });
+
+  it('should apply only the rules of the given groups', () => {
+    class TestClass {
+      @Trim(undefined, { groups: ['create'] })
+      name: string;
+
+      @Trim(undefined, { groups: ['update', 'admin'] })
+      title: string;
+
+      @Trim()
+      label: string;
+    }
+
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.title = ' title ';
+    instance.label = ' label ';
+
+    sanitize(instance, { groups: ['admin'] });
+
+    expect(instance.name).toBe(' name ');
+    expect(instance.title).toBe('title');
+    expect(instance.label).toBe(' label ');
+  });
+
+  it('should apply rules marked with "always: true" regardless of the groups', () => {
+    class TestClass {
+      @Trim(undefined, { always: true })
+      name: string;
+
+      @ToInt(undefined, { groups: ['create'], always: true })
+      age: string;
+    }
+
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.age = '42';
+
+    sanitize(instance, { groups: ['update'] });
+
+    expect(instance.name).toBe('name');
+    expect(instance.age).toBe(42);
+  });
+
+  it('should apply rules without groups when "always: true" is passed to the sanitizer', () => {
+    class TestClass {
+      @Trim()
+      name: string;
+
+      @Trim(undefined, { always: false })
+      label: string;
+    }
+
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.label = ' label ';
+
+    sanitize(instance, { groups: ['update'], always: true });
+
+    expect(instance.name).toBe('name');
+    expect(instance.label).toBe(' label ');
+  });
+
+  it('should propagate groups into nested objects', async () => {
+    class InnerTestClass {
+      @Trim(undefined, { groups: ['create'] })
+      name: string;
+
+      @Trim(undefined, { groups: ['update'] })
+      title: string;
+    }
+
+    class TestClass {
+      @SanitizeNested({ groups: ['create'] })
+      child: InnerTestClass;
+
+      @SanitizeNested({ each: true, groups: ['update'] })
+      children: InnerTestClass[];
+    }
+
+    const instance = new TestClass();
+    instance.child = Object.assign(new InnerTestClass(), { name: ' name ', title: ' title ' });
+    instance.children = [Object.assign(new InnerTestClass(), { name: ' name ', title: ' title ' })];
+
+    await sanitizeAsync(instance, { groups: ['create'] });
+
+    expect(instance.child.name).toBe('name');
+    expect(instance.child.title).toBe(' title ');
+    expect(instance.children[0].name).toBe(' name ');
+    expect(instance.children[0].title).toBe(' title ');
+  });
+});
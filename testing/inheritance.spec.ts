@@ -1,5 +1,5 @@
 import { defaultMetadataStorage } from '../src/default-storage.const';
-import { Trim } from '../src/decorators';
+import { Trim, ToInt, Ltrim, Escape, OverrideInherited, InheritSanitation } from '../src/decorators';
 import { sanitize } from '../src';
 
 describe('Inheritance', () => {
@@ -25,4 +25,191 @@ describe('Inheritance', () => {
     expect(instance.baseText).toBe('text');
     expect(instance.descendantText).toBe('text');
   });
+
+  it('should execute decorators defined on every class of the prototype chain', () => {
+    class BaseEntity {
+      @Trim()
+      id: string;
+    }
+
+    class AuditedEntity extends BaseEntity {
+      @Trim()
+      createdBy: string;
+    }
+
+    class UserDto extends AuditedEntity {
+      @Trim()
+      name: string;
+    }
+
+    const instance = new UserDto();
+    instance.id = ' id ';
+    instance.createdBy = ' admin ';
+    instance.name = ' name ';
+
+    sanitize(instance);
+
+    expect(instance.id).toBe('id');
+    expect(instance.createdBy).toBe('admin');
+    expect(instance.name).toBe('name');
+  });
+
+  it('should replace inherited rules of properties marked with @OverrideInherited()', () => {
+    class BaseClass {
+      @Trim()
+      text: string;
+
+      @ToInt()
+      count: string;
+    }
+
+    class MiddleClass extends BaseClass {}
+
+    class TestClass extends MiddleClass {
+      @OverrideInherited()
+      @Ltrim()
+      text: string;
+
+      @OverrideInherited()
+      count: string;
+    }
+
+    const instance = new TestClass();
+    instance.text = ' text ';
+    instance.count = '42';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('text ');
+    expect(instance.count).toBe('42');
+  });
+
+  it('should not affect the parent class when a descendant overrides a property', () => {
+    class BaseClass {
+      @Trim()
+      text: string;
+    }
+
+    class TestClass extends BaseClass {
+      @OverrideInherited()
+      text: string;
+    }
+
+    const instance = new BaseClass();
+    instance.text = ' text ';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('text');
+  });
+
+  it('should execute decorators defined in mixin classes', () => {
+    type Constructor<T = {}> = new (...args: any[]) => T;
+
+    function Audited<TBase extends Constructor>(Base: TBase) {
+      class AuditedMixin extends Base {
+        @Trim()
+        createdBy: string;
+      }
+
+      return AuditedMixin;
+    }
+
+    class BaseClass {
+      @Trim()
+      id: string;
+    }
+
+    class TestClass extends Audited(BaseClass) {
+      @Trim()
+      name: string;
+    }
+
+    const instance = new TestClass();
+    instance.id = ' id ';
+    instance.createdBy = ' admin ';
+    instance.name = ' name ';
+
+    sanitize(instance);
+
+    expect(instance.id).toBe('id');
+    expect(instance.createdBy).toBe('admin');
+    expect(instance.name).toBe('name');
+  });
+
+  it('should execute decorators of classes applied with @InheritSanitation()', () => {
+    class AuditFields {
+      @Trim()
+      createdBy: string;
+    }
+
+    class BaseAuditFields {
+      @Trim()
+      updatedBy: string;
+    }
+
+    class NameFields extends BaseAuditFields {
+      @Trim()
+      name: string;
+    }
+
+    @InheritSanitation(AuditFields, NameFields)
+    class TestClass {
+      @Trim()
+      title: string;
+    }
+
+    const instance = new TestClass() as TestClass & AuditFields & NameFields;
+    instance.createdBy = ' admin ';
+    instance.updatedBy = ' editor ';
+    instance.name = ' name ';
+    instance.title = ' title ';
+
+    sanitize(instance);
+
+    expect(instance.createdBy).toBe('admin');
+    expect(instance.updatedBy).toBe('editor');
+    expect(instance.name).toBe('name');
+    expect(instance.title).toBe('title');
+  });
+
+  it('should execute decorators of classes applied with stacked @InheritSanitation() decorators', () => {
+    class NameFields {
+      @Trim()
+      name: string;
+    }
+
+    class BioFields {
+      @Escape()
+      bio: string;
+    }
+
+    @InheritSanitation(NameFields)
+    @InheritSanitation(BioFields)
+    class TestClass {}
+
+    const instance = Object.assign(new TestClass(), { name: ' name ', bio: 'a & b' });
+
+    sanitize(instance);
+
+    expect(instance.name).toBe('name');
+    expect(instance.bio).toBe('a &amp; b');
+  });
+
+  it('should apply the rules of a class only once when it is found multiple times in the hierarchy', () => {
+    class SharedFields {
+      @Escape()
+      text: string;
+    }
+
+    @InheritSanitation(SharedFields)
+    class TestClass extends SharedFields {}
+
+    const instance = new TestClass();
+    instance.text = 'a & b';
+
+    sanitize(instance);
+
+    expect(instance.text).toBe('a &amp; b');
+  });
 });
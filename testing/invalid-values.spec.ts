@@ -0,0 +1,106 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { SanitizeTypes } from '../src/enums';
+import { NormalizeEmail, registerSchema, sanitize, SanitationError, ToDate, ToFloat, ToInt } from '../src';
+
+describe('Invalid value policies', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should write back the result of the conversion by default', () => {
+    class TestClass {
+      @ToInt()
+      count: any;
+
+      @ToDate()
+      date: any;
+
+      @NormalizeEmail()
+      email: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { count: 'x', date: 'x', email: '+@gmail.com' });
+
+    sanitize(instance);
+
+    expect(instance.count).toBeNaN();
+    expect(instance.date).toBeNull();
+    expect(instance.email).toBe(false);
+  });
+
+  it('should apply the policy given to the decorator', () => {
+    class TestClass {
+      @ToInt(undefined, { onInvalid: 'keep' })
+      count: any;
+
+      @ToFloat({ onInvalid: 'fallback', fallback: 0 })
+      price: any;
+
+      @ToDate({ onInvalid: 'undefined' })
+      date: any;
+
+      @NormalizeEmail(undefined, { onInvalid: 'null' })
+      email: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { count: 'x', price: 'x', date: 'x', email: '+@gmail.com' });
+
+    sanitize(instance);
+
+    expect(instance).toEqual({ count: 'x', price: 0, date: undefined, email: null });
+  });
+
+  it('should leave valid values untouched by the policy', () => {
+    class TestClass {
+      @ToInt(undefined, { onInvalid: 'null' })
+      count: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { count: '42' });
+
+    sanitize(instance);
+
+    expect(instance.count).toBe(42);
+  });
+
+  it('should throw a SanitationError with the throw policy', () => {
+    class TestClass {
+      @ToInt(undefined, { each: true, onInvalid: 'throw' })
+      counts: any[];
+    }
+
+    const instance = Object.assign(new TestClass(), { counts: ['1', 'x'] });
+
+    let error: SanitationError;
+    try {
+      sanitize(instance);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SanitationError);
+    expect(error.path).toBe('counts[1]');
+    expect(error.type).toBe(SanitizeTypes.TO_INT);
+    expect(error.value).toBe('x');
+  });
+
+  it('should use the policy given to the sanitizer when the decorator has none', () => {
+    class TestClass {
+      @ToInt()
+      count: any;
+
+      @ToFloat({ onInvalid: 'keep' })
+      price: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { count: 'x', price: 'x' });
+
+    sanitize(instance, { onInvalid: 'fallback', fallback: -1 });
+
+    expect(instance).toEqual({ count: -1, price: 'x' });
+  });
+
+  it('should apply the policy of schema rules', () => {
+    registerSchema({ name: 'product', properties: { count: [{ type: 'TO_INT', onInvalid: 'null' }] } });
+
+    expect(sanitize('product', { count: 'x' })).toEqual({ count: null });
+  });
+});
@@ -0,0 +1,144 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { CustomSanitizer } from '../src/interfaces';
+import { createDecorators, MetadataStorage, sanitize, Sanitizer } from '../src';
+import { SanitizerConstraint } from '../src/decorators';
+
+describe('Isolated metadata storages', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should register metadata of bound decorators only into the given storage', () => {
+    const storage = new MetadataStorage();
+    const { Trim } = createDecorators(storage);
+
+    class TestClass {
+      @Trim()
+      text: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { text: ' text ' });
+
+    sanitize(instance);
+    expect(instance.text).toBe(' text ');
+
+    new Sanitizer(storage).sanitize(instance);
+    expect(instance.text).toBe('text');
+  });
+
+  it('should keep rule sets of separate storages independent', () => {
+    const tenantA = new MetadataStorage();
+    const tenantB = new MetadataStorage();
+    const decoratorsA = createDecorators(tenantA);
+    const decoratorsB = createDecorators(tenantB);
+
+    class TestClass {
+      @decoratorsA.Trim()
+      @decoratorsB.Ltrim()
+      text: string;
+    }
+
+    const instanceA = Object.assign(new TestClass(), { text: ' text ' });
+    const instanceB = Object.assign(new TestClass(), { text: ' text ' });
+
+    new Sanitizer(tenantA).sanitize(instanceA);
+    new Sanitizer(tenantB).sanitize(instanceB);
+
+    expect(instanceA.text).toBe('text');
+    expect(instanceB.text).toBe('text ');
+  });
+
+  it('should register custom sanitizers and nested rules into the given storage', () => {
+    const storage = new MetadataStorage();
+    const { Sanitize, SanitizerConstraint, SanitizeNested } = createDecorators(storage);
+
+    @SanitizerConstraint()
+    class UpperCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toUpperCase();
+      }
+    }
+
+    class InnerTestClass {
+      @Sanitize(UpperCaseSanitizer)
+      code: string;
+    }
+
+    class TestClass {
+      @SanitizeNested()
+      child: InnerTestClass;
+    }
+
+    const instance = Object.assign(new TestClass(), { child: Object.assign(new InnerTestClass(), { code: 'hu' }) });
+
+    new Sanitizer(storage).sanitize(instance);
+
+    expect(instance.child.code).toBe('HU');
+  });
+
+  it('should find custom sanitizers registered into the default storage', () => {
+    const storage = new MetadataStorage();
+    const { Sanitize } = createDecorators(storage);
+
+    @SanitizerConstraint()
+    class UpperCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toUpperCase();
+      }
+    }
+
+    class TestClass {
+      @Sanitize(UpperCaseSanitizer)
+      code: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { code: 'hu' });
+
+    new Sanitizer(storage).sanitize(instance);
+
+    expect(instance.code).toBe('HU');
+  });
+
+  it('should throw an error for custom sanitizers which are not registered', () => {
+    const storage = new MetadataStorage();
+    const { Sanitize } = createDecorators(storage);
+
+    class UpperCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toUpperCase();
+      }
+    }
+
+    class TestClass {
+      @Sanitize(UpperCaseSanitizer)
+      code: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { code: 'hu' });
+
+    expect(() => new Sanitizer(storage).sanitize(instance)).toThrow(
+      'Custom sanitizer UpperCaseSanitizer is not registered, decorate it with @SanitizerConstraint().'
+    );
+  });
+
+  it('should apply the default options of the sanitizer', () => {
+    const storage = new MetadataStorage();
+    const { Trim } = createDecorators(storage);
+
+    class TestClass {
+      @Trim(undefined, { groups: ['create'] })
+      name: string;
+
+      @Trim(undefined, { groups: ['update'] })
+      title: string;
+    }
+
+    const sanitizer = new Sanitizer(storage, { groups: ['create'] });
+    const first = Object.assign(new TestClass(), { name: ' name ', title: ' title ' });
+    const second = Object.assign(new TestClass(), { name: ' name ', title: ' title ' });
+
+    sanitizer.sanitize(first);
+    sanitizer.sanitize(second, { groups: ['update'] });
+
+    expect(first).toEqual({ name: 'name', title: ' title ' });
+    expect(second).toEqual({ name: ' name ', title: 'title' });
+  });
+});
@@ -0,0 +1,61 @@
+import { CustomSanitizer } from '../src/interfaces';
+import { Default, EmptyToNull, Escape, sanitize, Sanitize, SanitizerConstraint, Trim } from '../src';
+
+describe('Nullish values', () => {
+  @SanitizerConstraint()
+  class MissingSanitizer implements CustomSanitizer {
+    sanitize(value: any): any {
+      return value === undefined ? 'missing' : value;
+    }
+  }
+
+  it('should skip null and undefined values by default', () => {
+    class TestClass {
+      @Sanitize(MissingSanitizer)
+      @Trim()
+      text: string;
+    }
+
+    const instance = new TestClass();
+
+    expect(() => sanitize(instance)).not.toThrow();
+    expect(instance.text).toBeUndefined();
+  });
+
+  it('should apply custom sanitizers to null and undefined values with sanitizeNullish', () => {
+    class TestClass {
+      @Trim()
+      @Sanitize(MissingSanitizer)
+      text: string;
+
+      @Sanitize(MissingSanitizer)
+      @Trim()
+      @Escape()
+      title: string | null;
+    }
+
+    const instance = Object.assign(new TestClass(), { title: null });
+
+    expect(() => sanitize(instance, { sanitizeNullish: true })).not.toThrow();
+    expect(instance.text).toBe('missing');
+    expect(instance.title).toBeNull();
+  });
+
+  it('should apply the rules after the default value was set', () => {
+    class TestClass {
+      @EmptyToNull()
+      @Trim()
+      @Default('')
+      text: string;
+    }
+
+    const missing = new TestClass();
+    const blank = Object.assign(new TestClass(), { text: '   ' });
+
+    sanitize(missing);
+    sanitize(blank);
+
+    expect(missing.text).toBeNull();
+    expect(blank.text).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { Trim, ToInt, SanitizeNested } from '../src/decorators';
+import { sanitizePlain, sanitizePlainAsync } from '../src';
+
+describe('Plain to class sanitation', () => {
+  class Address {
+    @Trim()
+    city: string;
+  }
+
+  class Tag {
+    @Trim()
+    label: string;
+  }
+
+  class UserDto {
+    @Trim()
+    name: string;
+
+    @ToInt()
+    age: number;
+
+    @SanitizeNested(() => Address)
+    address: Address;
+
+    @SanitizeNested(() => Address, { each: true })
+    previousAddresses: Address[];
+
+    @SanitizeNested(() => Tag, { each: true })
+    tagsByName: Record<string, Tag>;
+
+    @SanitizeNested()
+    untyped: Address;
+  }
+
+  function createPlain() {
+    return {
+      name: ' name ',
+      age: '42',
+      address: { city: ' Budapest ' },
+      previousAddresses: [{ city: ' Vienna ' }],
+      tagsByName: { first: { label: ' first ' } },
+      untyped: { city: ' Prague ' },
+    };
+  }
+
+  it('should create class instances from plain objects and sanitize them', () => {
+    const result = sanitizePlain(UserDto, createPlain());
+
+    expect(result).toBeInstanceOf(UserDto);
+    expect(result.name).toBe('name');
+    expect(result.age).toBe(42);
+    expect(result.address).toBeInstanceOf(Address);
+    expect(result.address.city).toBe('Budapest');
+    expect(result.previousAddresses[0]).toBeInstanceOf(Address);
+    expect(result.previousAddresses[0].city).toBe('Vienna');
+    expect(result.tagsByName.first).toBeInstanceOf(Tag);
+    expect(result.tagsByName.first.label).toBe('first');
+  });
+
+  it('should leave nested objects without type hint as plain objects', async () => {
+    const result = await sanitizePlainAsync(UserDto, createPlain());
+
+    expect(result.untyped).not.toBeInstanceOf(Address);
+    expect(result.untyped.city).toBe(' Prague ');
+  });
+
+  it('should leave the plain object untouched', () => {
+    const plain = createPlain();
+
+    sanitizePlain(UserDto, plain);
+
+    expect(plain).toEqual(createPlain());
+  });
+
+  it('should keep existing class instances', () => {
+    const address = Object.assign(new Address(), { city: ' Budapest ' });
+
+    const result = sanitizePlain(UserDto, { ...createPlain(), address });
+
+    expect(result.address).toBeInstanceOf(Address);
+    expect(result.address.city).toBe('Budapest');
+    expect(address.city).toBe(' Budapest ');
+  });
+
+  it('should leave null and primitive values as they are', () => {
+    const result = sanitizePlain(UserDto, {
+      ...createPlain(),
+      address: 'abc' as any,
+      previousAddresses: [null, { city: ' Vienna ' }, 'abc', undefined] as any,
+    });
+
+    expect(result.address).toBe('abc');
+    expect(result.previousAddresses[0]).toBeNull();
+    expect(result.previousAddresses[1]).toBeInstanceOf(Address);
+    expect(result.previousAddresses[2]).toBe('abc');
+    expect(result.previousAddresses[3]).toBeUndefined();
+  });
+
+  it('should convert a shared plain object into the class of every property', () => {
+    class Other {
+      @Trim()
+      city: string;
+    }
+
+    class SharedDto {
+      @SanitizeNested(() => Address)
+      address: Address;
+
+      @SanitizeNested(() => Other)
+      other: Other;
+
+      @SanitizeNested(() => Address)
+      sameAddress: Address;
+    }
+
+    const shared = { city: ' Budapest ' };
+    const result = sanitizePlain(SharedDto, { address: shared, other: shared, sameAddress: shared });
+
+    expect(result.address).toBeInstanceOf(Address);
+    expect(result.other).toBeInstanceOf(Other);
+    expect(result.other.city).toBe('Budapest');
+    expect(result.sameAddress).toBe(result.address);
+  });
+});
@@ -0,0 +1,89 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { Trim, ToInt, Sanitize, SanitizerConstraint, SanitizeNested } from '../src/decorators';
+import { CustomSanitizer } from '../src/interfaces';
+import { SanitizeTypes } from '../src/enums';
+import { sanitizeWithReport, sanitizeWithReportAsync } from '../src';
+
+describe('Sanitation report', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should return the sanitized object with the list of changes', () => {
+    class TestClass {
+      @Trim()
+      name: string;
+
+      @Trim()
+      title: string;
+
+      @ToInt()
+      @Trim()
+      age: string;
+    }
+
+    const instance = new TestClass();
+    instance.name = ' name ';
+    instance.title = 'title';
+    instance.age = ' 42 ';
+
+    const report = sanitizeWithReport(instance);
+
+    expect(report.object).toBe(instance);
+    expect(report.changes).toEqual([
+      { path: 'name', type: SanitizeTypes.TRIM, sanitizer: undefined, before: ' name ', after: 'name' },
+      { path: 'age', type: SanitizeTypes.TRIM, sanitizer: undefined, before: ' 42 ', after: '42' },
+      { path: 'age', type: SanitizeTypes.TO_INT, sanitizer: undefined, before: '42', after: 42 },
+    ]);
+  });
+
+  it('should report array indexes and nested paths', () => {
+    class InnerTestClass {
+      @Trim(undefined, { each: true })
+      lines: string[];
+    }
+
+    class TestClass {
+      @SanitizeNested({ each: true })
+      children: InnerTestClass[];
+
+      @SanitizeNested()
+      child: InnerTestClass;
+    }
+
+    const instance = new TestClass();
+    instance.children = [Object.assign(new InnerTestClass(), { lines: ['a', ' b '] })];
+    instance.child = Object.assign(new InnerTestClass(), { lines: [' c'] });
+
+    const { changes } = sanitizeWithReport(instance);
+
+    expect(changes.map(change => change.path)).toEqual(['children[0].lines[1]', 'child.lines[0]']);
+  });
+
+  it('should report the custom sanitizer which altered the value', async () => {
+    @SanitizerConstraint()
+    class UpperCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): Promise<string> {
+        return Promise.resolve(value.toUpperCase());
+      }
+    }
+
+    class TestClass {
+      @Sanitize(UpperCaseSanitizer)
+      code: string;
+    }
+
+    const instance = new TestClass();
+    instance.code = 'hu';
+
+    const { changes } = await sanitizeWithReportAsync(instance);
+
+    expect(changes).toEqual([
+      {
+        path: 'code',
+        type: SanitizeTypes.CUSTOM_SANITIZATION,
+        sanitizer: UpperCaseSanitizer,
+        before: 'hu',
+        after: 'HU',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { SanitizeTypes } from '../src/enums';
+import {
+  Blacklist,
+  Escape,
+  getSanitationPipeline,
+  InheritSanitation,
+  registerSchema,
+  sanitize,
+  ToInt,
+  Trim,
+} from '../src';
+
+describe('Rule ordering', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should apply the rules of a property from the bottom decorator to the top one by default', () => {
+    class TestClass {
+      @ToInt()
+      @Trim('x')
+      value: any;
+    }
+
+    const instance = Object.assign(new TestClass(), { value: 'x42x' });
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(42);
+  });
+
+  it('should apply the rules with lower order first', () => {
+    class TestClass {
+      @Blacklist('y', { order: 1 })
+      @Trim('x', { order: 2 })
+      value: string;
+    }
+
+    const instance = Object.assign(new TestClass(), { value: 'yx1xy' });
+
+    sanitize(instance);
+
+    expect(instance.value).toBe('1');
+  });
+
+  it('should apply inherited rules before the own rules of the class', () => {
+    class BaseClass {
+      @Trim('x')
+      value: any;
+    }
+
+    class ChildClass extends BaseClass {
+      @ToInt()
+      value: any;
+    }
+
+    const instance = Object.assign(new ChildClass(), { value: 'x42x' });
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(42);
+  });
+
+  it('should allow own rules to run before inherited rules with order', () => {
+    class BaseClass {
+      @ToInt()
+      value: any;
+    }
+
+    class ChildClass extends BaseClass {
+      @Trim('x', { order: -1 })
+      value: any;
+    }
+
+    const instance = Object.assign(new ChildClass(), { value: 'x42x' });
+
+    sanitize(instance);
+
+    expect(instance.value).toBe(42);
+  });
+
+  it('should return the pipeline of every property', () => {
+    class MixinClass {
+      @Escape()
+      name: string;
+    }
+
+    class BaseClass {
+      @Trim()
+      name: string;
+    }
+
+    @InheritSanitation(MixinClass)
+    class ChildClass extends BaseClass {
+      @ToInt(undefined, { order: -1 })
+      @Trim()
+      age: any;
+
+      @Trim('x', { groups: ['update'] })
+      name: string;
+    }
+
+    const pipeline = getSanitationPipeline(ChildClass);
+
+    expect([...pipeline.keys()].sort()).toEqual(['age', 'name']);
+    expect(pipeline.get('name').map(metadata => metadata.type)).toEqual([
+      SanitizeTypes.TRIM,
+      SanitizeTypes.ESCAPE,
+      SanitizeTypes.TRIM,
+    ]);
+    expect(pipeline.get('age').map(metadata => metadata.type)).toEqual([SanitizeTypes.TO_INT, SanitizeTypes.TRIM]);
+    expect(getSanitationPipeline(ChildClass, { groups: ['create'] }).get('name')).toBeUndefined();
+  });
+
+  it('should return the pipeline of schemas', () => {
+    registerSchema({
+      name: 'user',
+      properties: { name: [{ type: 'TRIM' }, { type: 'ESCAPE', order: -1 }] },
+    });
+
+    expect(
+      getSanitationPipeline('user')
+        .get('name')
+        .map(metadata => metadata.type)
+    ).toEqual([SanitizeTypes.ESCAPE, SanitizeTypes.TRIM]);
+  });
+});
@@ -0,0 +1,139 @@
+import { defaultMetadataStorage } from '../src/default-storage.const';
+import { SanitizerConstraint, Trim } from '../src/decorators';
+import { CustomSanitizer, SanitationSchema } from '../src/interfaces';
+import { registerSchema, sanitize, sanitizeAsync } from '../src';
+
+describe('Schemas', () => {
+  beforeEach(() => defaultMetadataStorage.reset());
+
+  it('should sanitize plain objects based on a registered schema', () => {
+    registerSchema({
+      name: 'User',
+      properties: {
+        name: [{ type: 'TRIM' }],
+        age: [{ type: 'TRIM' }, { type: 'TO_INT', args: [10] }],
+        tags: [{ type: 'LTRIM', args: ['#'], each: true }],
+      },
+    });
+
+    const user = { name: ' name ', age: ' 42 ', tags: ['#a', '#b'], other: ' other ' };
+
+    const result = sanitize('User', user);
+
+    expect(result).toBe(user);
+    expect(user).toEqual({ name: 'name', age: 42, tags: ['a', 'b'], other: ' other ' });
+  });
+
+  it('should load schemas from JSON', () => {
+    const schema: SanitationSchema = JSON.parse(
+      '{ "name": "User", "properties": { "email": [{ "type": "NORMALIZE_EMAIL", "groups": ["create"] }] } }'
+    );
+    registerSchema(schema);
+
+    const user = { email: 'John.Doe@GMAIL.com' };
+
+    sanitize('User', user, { groups: ['update'] });
+    expect(user.email).toBe('John.Doe@GMAIL.com');
+
+    sanitize('User', user, { groups: ['create'] });
+    expect(user.email).toBe('johndoe@gmail.com');
+  });
+
+  it('should sanitize nested objects with the referenced schema or with their class', async () => {
+    class Tag {
+      @Trim()
+      label: string;
+    }
+
+    registerSchema({ name: 'Address', properties: { city: [{ type: 'TRIM' }] } });
+    registerSchema({
+      name: 'User',
+      properties: {
+        address: [{ type: 'NESTED', schema: 'Address' }],
+        previousAddresses: [{ type: 'NESTED', schema: 'Address', each: true }],
+        tag: [{ type: 'NESTED' }],
+      },
+    });
+
+    const user = {
+      address: { city: ' Budapest ' },
+      previousAddresses: [{ city: ' Vienna ' }],
+      tag: Object.assign(new Tag(), { label: ' label ' }),
+    };
+
+    await sanitizeAsync('User', user);
+
+    expect(user.address.city).toBe('Budapest');
+    expect(user.previousAddresses[0].city).toBe('Vienna');
+    expect(user.tag.label).toBe('label');
+  });
+
+  it('should reference custom sanitizers by class or by name', () => {
+    @SanitizerConstraint({ name: 'lowerCase' })
+    class LowerCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toLowerCase();
+      }
+    }
+
+    registerSchema({
+      name: 'User',
+      properties: {
+        name: [{ type: 'CUSTOM_SANITIZATION', args: [LowerCaseSanitizer] }],
+        email: [{ type: 'CUSTOM_SANITIZATION', args: ['lowerCase'] }],
+      },
+    });
+
+    const user = { name: 'NAME', email: 'EMAIL' };
+
+    sanitize('User', user);
+
+    expect(user).toEqual({ name: 'name', email: 'email' });
+  });
+
+  it('should not reference custom sanitizers by the name of their class', () => {
+    @SanitizerConstraint()
+    class LowerCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toLowerCase();
+      }
+    }
+
+    registerSchema({
+      name: 'User',
+      properties: { name: [{ type: 'CUSTOM_SANITIZATION', args: [LowerCaseSanitizer.name] }] },
+    });
+
+    expect(() => sanitize('User', { name: 'NAME' })).toThrow(
+      `No custom sanitizer registered with name 'LowerCaseSanitizer'.`
+    );
+  });
+
+  it('should throw when two custom sanitizers are registered with the same name', () => {
+    @SanitizerConstraint({ name: 'lowerCase' })
+    class LowerCaseSanitizer implements CustomSanitizer {
+      sanitize(value: string): string {
+        return value.toLowerCase();
+      }
+    }
+
+    expect(LowerCaseSanitizer).toBeDefined();
+    expect(() => {
+      @SanitizerConstraint({ name: 'lowerCase' })
+      class OtherLowerCaseSanitizer implements CustomSanitizer {
+        sanitize(value: string): string {
+          return value.toLowerCase();
+        }
+      }
+
+      return OtherLowerCaseSanitizer;
+    }).toThrow(`A custom sanitizer is already registered with name 'lowerCase'.`);
+  });
+
+  it('should throw for unknown schemas and sanitation types', () => {
+    expect(() => sanitize('Unknown', {})).toThrow(`No sanitation schema registered with name 'Unknown'.`);
+    expect(() => registerSchema({ name: 'User', properties: { name: [{ type: 'NOPE' as any }] } })).toThrow(
+      `Unknown sanitation type 'NOPE' in schema 'User'.`
+    );
+  });
+});